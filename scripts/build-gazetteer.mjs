@@ -0,0 +1,120 @@
+// Builds src/lib/data/gazetteer.json from GeoNames dump files so place search works
+// without a geocoding service. Reads admin1CodesASCII.txt, countryInfo.txt and one of
+// cities15000.txt, cities5000.txt or cities1000.txt from https://download.geonames.org/export/dump/
+// in the given directory. The version is the dump date as yyyy.mm.
+//
+//   npm run gazetteer:build -- ~/Downloads/geonames 2025.02
+
+import { access, readFile, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const rootDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+if (!process.argv[2] || !process.argv[3]) {
+  console.error('Usage: npm run gazetteer:build -- <GeoNames dump directory> <dump date as yyyy.mm>');
+  process.exit(1);
+}
+const sourceDir = resolve(process.argv[2]);
+const version = process.argv[3];
+const outputPath = join(rootDir, 'src', 'lib', 'data', 'gazetteer.json');
+
+const MIN_POPULATION = 15000;
+const MAX_ALTERNATE_NAMES = 64;
+
+// GeoNames admin1 codes only line up with ISO 3166-2 suffixes for these countries
+const ISO_ADMIN1_COUNTRIES = new Set(['US', 'GB', 'CH']);
+
+// Smallest-population dump first; cities below MIN_POPULATION are dropped either way
+const CITY_FILES = ['cities15000.txt', 'cities5000.txt', 'cities1000.txt'];
+
+const readRows = async (file) =>
+  (await readFile(join(sourceDir, file), 'utf8'))
+    .split('\n')
+    .filter(line => line.trim() && !line.startsWith('#'))
+    .map(line => line.split('\t'));
+
+const isLatinName = (name) =>
+  /^[A-Za-z0-9 .,'’()-]+$/.test(name.normalize('NFD').replace(/[\u0300-\u036f]/g, ''));
+
+const countries = new Map((await readRows('countryInfo.txt')).map(row => [row[0], row[4]]));
+const admin1 = new Map((await readRows('admin1CodesASCII.txt')).map(row => [row[0], row[1]]));
+
+const regions = [];
+const regionIndex = new Map();
+const timezones = [];
+const timezoneIndex = new Map();
+const usedCountries = {};
+
+const indexOf = (list, index, key, value) => {
+  if (!index.has(key)) {
+    index.set(key, list.length);
+    list.push(value);
+  }
+  return index.get(key);
+};
+
+const exists = (file) => access(join(sourceDir, file)).then(() => true, () => false);
+const cityFile = (await Promise.all(CITY_FILES.map(exists))).reduce(
+  (found, present, index) => found ?? (present ? CITY_FILES[index] : undefined),
+  undefined
+);
+if (!cityFile) throw new Error(`None of ${CITY_FILES.join(', ')} found in ${sourceDir}`);
+
+const cities = (await readRows(cityFile))
+  .map(row => ({
+    name: row[1],
+    alternates: [row[2], ...(row[3] ? row[3].split(',') : [])],
+    latitude: Number(row[4]),
+    longitude: Number(row[5]),
+    countryCode: row[8],
+    admin1Code: row[10],
+    population: Number(row[14]) || 0,
+    timezone: row[17]
+  }))
+  .filter(city => city.population >= MIN_POPULATION && countries.has(city.countryCode))
+  .sort((a, b) => b.population - a.population)
+  .map(city => {
+    usedCountries[city.countryCode] = countries.get(city.countryCode);
+
+    const regionKey = `${city.countryCode}.${city.admin1Code}`;
+    const regionName = admin1.get(regionKey);
+    const region = regionName
+      ? indexOf(regions, regionIndex, regionKey, [
+          regionName,
+          ISO_ADMIN1_COUNTRIES.has(city.countryCode) ? `${city.countryCode}-${city.admin1Code}` : ''
+        ])
+      : '';
+    const timezone = city.timezone ? indexOf(timezones, timezoneIndex, city.timezone, city.timezone) : '';
+
+    // The ASCII name comes first. Alternates are comma-separated, so a name containing a comma arrives split
+    // in two: drop the stray pieces, and lower-case romanizations of non-Latin names
+    const alternates = [...new Set(city.alternates)]
+      .filter(name => name === name.trim() && name.length > 1 && name !== city.name)
+      .filter(name => isLatinName(name) && !/^[a-z]/.test(name))
+      .slice(0, MAX_ALTERNATE_NAMES);
+
+    return [
+      city.name,
+      alternates.join(';'),
+      city.latitude.toFixed(4),
+      city.longitude.toFixed(4),
+      city.population,
+      city.countryCode,
+      region,
+      timezone
+    ].join('\t');
+  });
+
+const gazetteer = {
+  version,
+  source: `GeoNames ${cityFile.replace('.txt', '')} (https://www.geonames.org, CC BY 4.0)`,
+  minPopulation: MIN_POPULATION,
+  fields: ['name', 'alternateNames', 'latitude', 'longitude', 'population', 'countryCode', 'region', 'timezone'],
+  countries: usedCountries,
+  regions,
+  timezones,
+  cities: cities.join('\n')
+};
+
+await writeFile(outputPath, JSON.stringify(gazetteer) + '\n');
+console.log(`Wrote ${cities.length} cities, ${regions.length} regions and ${timezones.length} timezones to ${outputPath}`);
@@ -0,0 +1,93 @@
+// Builds src/lib/data/life-expectancy.json from the UN World Population Prospects demographic
+// indicators CSV (WPP2024_Demographic_Indicators_Medium.csv from https://population.un.org/wpp/),
+// taking life expectancy at birth by sex for every country and the world in the data year.
+//
+//   npm run life-expectancy:build -- ~/Downloads/WPP2024_Demographic_Indicators_Medium.csv
+//   npm run life-expectancy:build -- ~/Downloads/WPP2024_Demographic_Indicators_Medium.csv 2023 WPP2024
+
+import { readFile, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const rootDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+if (!process.argv[2]) {
+  console.error('Usage: npm run life-expectancy:build -- <WPP demographic indicators CSV> [dataYear] [version]');
+  process.exit(1);
+}
+const sourcePath = resolve(process.argv[2]);
+const dataYear = Number(process.argv[3] || 2023);
+const version = process.argv[4] || `WPP${new Date().getFullYear()}`;
+const outputPath = join(rootDir, 'src', 'lib', 'data', 'life-expectancy.json');
+
+const WORLD_LOCATION_ID = '900';
+
+// Splits CSV lines, allowing quoted fields with commas (e.g. "China, Hong Kong SAR")
+const parseLine = (line) => {
+  const fields = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted && char === '"' && line[i + 1] === '"') {
+      field += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+const [headerLine, ...lines] = (await readFile(sourcePath, 'utf8')).split(/\r?\n/).filter(line => line.trim());
+const header = parseLine(headerLine.replace(/^﻿/, ''));
+const column = (name) => {
+  const index = header.indexOf(name);
+  if (index < 0) throw new Error(`Column ${name} not found in ${sourcePath}`);
+  return index;
+};
+const columns = {
+  locationId: column('LocID'),
+  iso2: column('ISO2_code'),
+  type: column('LocTypeName'),
+  name: column('Location'),
+  year: column('Time'),
+  both: column('LEx'),
+  male: column('LExMale'),
+  female: column('LExFemale')
+};
+
+const round = (value) => Math.round(Number(value) * 10) / 10;
+const toEntry = (row) => ({ both: round(row[columns.both]), female: round(row[columns.female]), male: round(row[columns.male]) });
+
+let world;
+const countries = {};
+for (const line of lines) {
+  const row = parseLine(line);
+  if (Number(row[columns.year]) !== dataYear) continue;
+
+  if (row[columns.locationId] === WORLD_LOCATION_ID) {
+    world = toEntry(row);
+  } else if (row[columns.type] === 'Country/Area' && row[columns.iso2]) {
+    countries[row[columns.iso2]] = { name: row[columns.name], ...toEntry(row) };
+  }
+}
+
+if (!world) throw new Error(`No world row for ${dataYear} in ${sourcePath}`);
+
+const sortedCountries = Object.fromEntries(Object.entries(countries).sort(([a], [b]) => a.localeCompare(b)));
+const dataset = {
+  version,
+  dataYear,
+  note: `Period life expectancy at birth in years for ${dataYear}, rounded to 0.1. UN World Population Prospects (${version}), medium variant; https://population.un.org/wpp/, CC BY 3.0 IGO.`,
+  world,
+  countries: sortedCountries
+};
+
+await writeFile(outputPath, JSON.stringify(dataset, null, 2) + '\n');
+console.log(`Wrote ${Object.keys(sortedCountries).length} countries for ${dataYear} to ${outputPath}`);
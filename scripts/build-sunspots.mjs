@@ -0,0 +1,88 @@
+// Builds src/lib/data/sunspot-monthly.json from the SILSO monthly mean total sunspot number
+// (SN_m_tot_V2.0.csv from https://www.sidc.be/SILSO/datafiles), so past months use the observed
+// series. Values are 13-month smoothed like the SILSO smoothed series; the last six months, which
+// cannot be smoothed yet, average the months available on either side. The version is the last
+// month in the file as yyyy.mm.
+//
+//   npm run sunspots:build -- ~/Downloads/SN_m_tot_V2.0.csv
+
+import { readFile, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const rootDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+if (!process.argv[2]) {
+  console.error('Usage: npm run sunspots:build -- <SILSO SN_m_tot_V2.0.csv>');
+  process.exit(1);
+}
+const sourcePath = resolve(process.argv[2]);
+const outputPath = join(rootDir, 'src', 'lib', 'data', 'sunspot-monthly.json');
+
+// Solar cycle minima from the SILSO cycle table; each cycle runs to the next minimum
+const CYCLE_MINIMA = [
+  '1755-02', '1766-06', '1775-06', '1784-09', '1798-04', '1810-08', '1823-05', '1833-11', '1843-07',
+  '1855-12', '1867-03', '1878-12', '1890-03', '1902-01', '1913-07', '1923-08', '1933-09', '1944-02',
+  '1954-04', '1964-10', '1976-03', '1986-09', '1996-08', '2008-12', '2019-12'
+];
+
+const pad = (value) => String(value).padStart(2, '0');
+const toYearMonth = (index) => `${Math.floor(index / 12)}-${pad((index % 12) + 1)}`;
+const toIndex = (yearMonth) => {
+  const [year, month] = yearMonth.split('-').map(Number);
+  return year * 12 + month - 1;
+};
+
+// Columns: year; month; decimal year; monthly mean; standard deviation; observations; definitive (1) or provisional (0)
+const rows = (await readFile(sourcePath, 'utf8'))
+  .split(/\r?\n/)
+  .filter(line => line.trim())
+  .map(line => line.split(';').map(field => field.trim()));
+
+const firstIndex = toIndex(CYCLE_MINIMA[0]);
+const means = rows
+  .map(row => ({ index: Number(row[0]) * 12 + Number(row[1]) - 1, value: Number(row[3]) }))
+  .filter(({ index, value }) => index >= firstIndex && value >= 0)
+  .sort((a, b) => a.index - b.index);
+
+means.forEach(({ index }, i) => {
+  if (index !== firstIndex + i) throw new Error(`Missing month ${toYearMonth(firstIndex + i)} in ${sourcePath}`);
+});
+const monthly = means.map(({ value }) => value);
+
+// 13-month running mean with half weight on the two end months (the SILSO smoothing)
+const smooth = (i) => {
+  if (i >= 6 && i + 6 < monthly.length) {
+    let sum = (monthly[i - 6] + monthly[i + 6]) / 2;
+    for (let j = i - 5; j <= i + 5; j++) sum += monthly[j];
+    return sum / 12;
+  }
+  const window = monthly.slice(Math.max(0, i - 6), i + 7);
+  return window.reduce((sum, value) => sum + value, 0) / window.length;
+};
+const values = monthly.map((_, i) => Math.round(smooth(i) * 10) / 10);
+
+const cycles = CYCLE_MINIMA.map((start, i) => {
+  const end = CYCLE_MINIMA[i + 1] ?? null;
+  const from = toIndex(start) - firstIndex;
+  const to = end ? toIndex(end) - firstIndex : values.length - 1;
+  let maximum = from;
+  for (let j = from; j <= to; j++) {
+    if (values[j] > values[maximum]) maximum = j;
+  }
+  return { cycle: i + 1, start, maximum: toYearMonth(firstIndex + maximum), end, maxSmoothed: values[maximum] };
+});
+
+const lastMonth = toYearMonth(firstIndex + values.length - 1);
+const dataset = {
+  version: lastMonth.replace('-', '.'),
+  source: 'SILSO, Royal Observatory of Belgium - International Sunspot Number v2.0, monthly mean total sunspot number (SN_m_tot_V2.0); https://www.sidc.be/SILSO/, CC BY-NC 4.0',
+  method: '13-month smoothed observed monthly means; the last six months average the months available on either side. Cycle maxima are the highest smoothed value between SILSO cycle minima.',
+  observed: true,
+  firstMonth: CYCLE_MINIMA[0],
+  lastMonth,
+  cycles,
+  values
+};
+
+await writeFile(outputPath, JSON.stringify(dataset) + '\n');
+console.log(`Wrote ${values.length} months (${CYCLE_MINIMA[0]} to ${lastMonth}) to ${outputPath}`);
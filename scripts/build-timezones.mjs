@@ -0,0 +1,151 @@
+// Builds src/lib/data/timezones.json from the timezone-boundary-builder data packaged by geo-tz
+// (https://github.com/evansiroky/timezone-boundary-builder, ODbL), so coordinates resolve to the
+// zone whose boundary they fall inside. Reads timezones.geojson.index.json and
+// timezones.geojson.geo.dat (the comprehensive product, one zone per country or more) from the
+// given directory. The version is the geo-tz release the data came from.
+//
+//   npm pack geo-tz && tar xzf geo-tz-*.tgz
+//   npm run timezones:build -- package/data 8.1.9
+
+import geobuf from 'geobuf';
+import Pbf from 'pbf';
+import { open, readFile, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const rootDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+if (!process.argv[2] || !process.argv[3]) {
+  console.error('Usage: npm run timezones:build -- <geo-tz data directory> <geo-tz version>');
+  process.exit(1);
+}
+const sourceDir = resolve(process.argv[2]);
+const version = process.argv[3];
+const outputPath = join(rootDir, 'src', 'lib', 'data', 'timezones.json');
+
+// Boundaries are simplified to about 1 km and stored in thousandths of a degree
+const SIMPLIFY_TOLERANCE = 0.01;
+const SCALE = 1000;
+
+const index = JSON.parse(await readFile(join(sourceDir, 'timezones.geojson.index.json'), 'utf8'));
+const features = await open(join(sourceDir, 'timezones.geojson.geo.dat'), 'r');
+
+const readFeatures = async ({ pos, len }) => {
+  const buffer = Buffer.alloc(len);
+  await features.read(buffer, 0, len, pos);
+  return geobuf.decode(new Pbf(buffer)).features;
+};
+
+const toPolygons = (geometry) => geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+const ringArea = (ring) => {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] + ring[i][0]) * (ring[j][1] - ring[i][1]);
+  }
+  return Math.abs(area / 2);
+};
+
+// Douglas-Peucker on a closed ring; the first and last points are the same and always kept
+const simplify = (ring) => {
+  if (ring.length <= 4) return ring;
+  const keep = new Uint8Array(ring.length);
+  keep[0] = keep[ring.length - 1] = 1;
+  const stack = [[0, ring.length - 1]];
+  while (stack.length) {
+    const [start, end] = stack.pop();
+    const [x1, y1] = ring[start];
+    const [x2, y2] = ring[end];
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    let farthest = -1;
+    let maxDistance = 0;
+    for (let i = start + 1; i < end; i++) {
+      const [x, y] = ring[i];
+      const distance = length === 0
+        ? Math.hypot(x - x1, y - y1)
+        : Math.abs((y2 - y1) * x - (x2 - x1) * y + x2 * y1 - y2 * x1) / length;
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        farthest = i;
+      }
+    }
+    if (maxDistance > SIMPLIFY_TOLERANCE) {
+      keep[farthest] = 1;
+      stack.push([start, farthest], [farthest, end]);
+    }
+  }
+  return ring.filter((_, i) => keep[i]);
+};
+
+// Flat [lon, lat, dLon, dLat, ...] in thousandths of a degree, without the closing point
+const encodeRing = (ring) => {
+  const encoded = [];
+  let previousX = 0;
+  let previousY = 0;
+  for (const [lon, lat] of ring.slice(0, -1)) {
+    const x = Math.round(lon * SCALE);
+    const y = Math.round(lat * SCALE);
+    if (encoded.length && x === previousX && y === previousY) continue;
+    encoded.push(x - previousX, y - previousY);
+    previousX = x;
+    previousY = y;
+  }
+  return encoded.length >= 6 ? encoded : null;
+};
+
+// A cell crossed by boundaries keeps the zone covering most of it as the fallback, plus the
+// shapes of every other zone in it: [zone, ring, ring, ...]
+const buildMixedCell = (cellFeatures) => {
+  const areas = new Map();
+  for (const feature of cellFeatures) {
+    const { tzid } = feature.properties;
+    const area = toPolygons(feature.geometry).reduce((sum, polygon) => sum + ringArea(polygon[0]), 0);
+    areas.set(tzid, (areas.get(tzid) ?? 0) + area);
+  }
+  const [dominant] = [...areas].sort((a, b) => b[1] - a[1])[0];
+  if (areas.size === 1) return zoneIndex(dominant);
+
+  const shapes = [];
+  for (const feature of cellFeatures) {
+    const { tzid } = feature.properties;
+    if (tzid === dominant) continue;
+    const rings = toPolygons(feature.geometry).flat().map(ring => encodeRing(simplify(ring))).filter(Boolean);
+    if (rings.length) shapes.push([zoneIndex(tzid), ...rings]);
+  }
+  return shapes.length ? { zone: zoneIndex(dominant), shapes } : zoneIndex(dominant);
+};
+
+const zones = [];
+const zoneIndexes = new Map();
+const zoneIndex = (tzid) => {
+  if (!zoneIndexes.has(tzid)) {
+    zoneIndexes.set(tzid, zones.length);
+    zones.push(tzid);
+  }
+  return zoneIndexes.get(tzid);
+};
+
+// Cells are null (open sea), a zone index, a mixed cell, or [ne, nw, sw, se] quarters
+const buildCell = async (node) => {
+  if (!node) return null;
+  if (Array.isArray(node)) return zoneIndex(index.timezones[node[0]]);
+  if (node.pos !== undefined) return buildMixedCell(await readFeatures(node));
+
+  const quarters = [];
+  for (const key of ['a', 'b', 'c', 'd']) quarters.push(await buildCell(node[key]));
+  const [first] = quarters;
+  return (first === null || typeof first === 'number') && quarters.every(quarter => quarter === first) ? first : quarters;
+};
+
+const root = await buildCell(index.lookup);
+await features.close();
+
+const dataset = {
+  version,
+  source: `timezone-boundary-builder via geo-tz ${version}; https://github.com/evansiroky/timezone-boundary-builder, ODbL. Boundaries simplified to ${SIMPLIFY_TOLERANCE}°.`,
+  scale: SCALE,
+  zones,
+  root
+};
+
+await writeFile(outputPath, JSON.stringify(dataset) + '\n');
+console.log(`Wrote ${zones.length} zones to ${outputPath}`);
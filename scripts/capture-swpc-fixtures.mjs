@@ -0,0 +1,32 @@
+// Captures the NOAA SWPC solar-cycle payloads served by scripts/solar-fixture-server.mjs into
+// fixtures/swpc, keeping the observed indices from the given month on so the fixtures stay small.
+// The responses are otherwise stored as received.
+//
+//   npm run solar:capture
+//   npm run solar:capture -- 2015-01
+
+import { writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'swpc');
+const baseUrl = process.env.SWPC_URL || 'https://services.swpc.noaa.gov';
+const firstMonth = process.argv[2] || '2015-01';
+
+const fetchPayload = async (name) => {
+  const url = `${baseUrl}/json/solar-cycle/${name}`;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url} returned HTTP ${response.status}`);
+  return response.json();
+};
+
+const payloads = {
+  'observed-solar-cycle-indices.json': (await fetchPayload('observed-solar-cycle-indices.json'))
+    .filter(row => row['time-tag'] >= firstMonth),
+  'predicted-solar-cycle.json': await fetchPayload('predicted-solar-cycle.json')
+};
+
+for (const [name, rows] of Object.entries(payloads)) {
+  await writeFile(join(fixturesDir, name), JSON.stringify(rows, null, 1) + '\n');
+  console.log(`Wrote ${rows.length} months (${rows[0]['time-tag']} to ${rows[rows.length - 1]['time-tag']}) to fixtures/swpc/${name}`);
+}
@@ -0,0 +1,40 @@
+// Serves the NOAA SWPC solar-cycle payloads in fixtures/swpc so the 'noaa' solar
+// data provider can run without network access. See fixtures/swpc/README.md for
+// where they come from; npm run solar:capture refreshes them.
+//
+//   npm run solar:fixtures
+//   NEXT_PUBLIC_SOLAR_DATA_PROVIDER=noaa NEXT_PUBLIC_SOLAR_DATA_URL=http://localhost:4010 npm run dev
+//
+// PORT=0 picks a free port; the listening URL is printed either way.
+
+import { createServer } from 'http';
+import { readFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'swpc');
+const port = Number(process.env.PORT || 4010);
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url || '/', `http://localhost:${port}`);
+
+  if (!pathname.startsWith('/json/solar-cycle/')) {
+    res.writeHead(404).end();
+    return;
+  }
+
+  try {
+    const body = await readFile(join(fixturesDir, basename(pathname)));
+    res.writeHead(200, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*'
+    });
+    res.end(body);
+  } catch {
+    res.writeHead(404).end();
+  }
+});
+
+server.listen(port, () => {
+  console.log(`SWPC fixture server listening on http://localhost:${server.address().port}`);
+});
@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label'
 import { Switch } from '@/components/ui/switch'
 import { Separator } from '@/components/ui/separator'
 import { ThemeToggle } from '@/components/theme/theme-toggle'
+import { ScoringProfileSettings } from '@/components/timing/scoring-profile-settings'
 import { Button } from '@/components/ui/button'
 import { useAuth } from '@/hooks/use-auth'
 import { Settings, Moon, Bell, Shield, Download, Trash2 } from 'lucide-react'
@@ -139,6 +140,9 @@ export default function SettingsPage() {
                 </CardContent>
               </Card>
 
+              {/* Birth Timing Scoring */}
+              <ScoringProfileSettings />
+
               {/* Data & Storage */}
               <Card>
                 <CardHeader>
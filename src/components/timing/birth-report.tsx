@@ -1,12 +1,19 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
 import { 
   Calendar,
   MapPin, 
@@ -17,15 +24,37 @@ import {
   Sun,
   Snowflake,
   Download,
-  Info
+  Info,
+  FileText,
+  Printer,
+  FileJson,
+  RefreshCw
 } from 'lucide-react';
-import { format, parse } from 'date-fns';
-import { LocationData } from '@/lib/geolocation';
-import { calculateOptimalTiming, OptimalTimingResult } from '@/lib/optimal-timing';
-import { geocodeAddress, suggestLocations, GeocodingResult } from '@/lib/geocoding';
+import { format } from 'date-fns';
+import { getLocationLabel, LocationData } from '@/lib/geolocation';
+import {
+  calculateOptimalTiming,
+  generateOptimalityReport,
+  getAnalysisCitations,
+  getModelInfo,
+  ModelInfo,
+  OptimalTimingResult
+} from '@/lib/optimal-timing';
+import { generateReportPdf, getReportPdfFilename } from '@/lib/pdf-report';
+import { formatCivilDate, parseCivilDate } from '@/lib/civil-date';
+import { geocodeAddress, suggestLocations, toLocationData, GeocodingResult } from '@/lib/geocoding';
+import { ScoringProfile } from '@/lib/scoring-profiles';
+import { formatRecommendation } from '@/lib/recommendations';
+import { buildSavedReport, getOpenedReportPdfContent, getSavedReportFilename, OpenedReport } from '@/lib/report-schema';
+import { FactorEvidence } from './factor-evidence';
+import { OpenReportButton } from './open-report-button';
 
 interface BirthReportProps {
   onClose: () => void;
+  profile?: ScoringProfile;
+  initialReport?: OpenedReport; // Saved report to show instead of the entry form
+  initialLocation?: LocationData; // Prefills the form, e.g. from a shared link; with a date, the report is generated
+  initialDate?: Date;
 }
 
 interface BirthData {
@@ -35,17 +64,61 @@ interface BirthData {
   countryName: string;
 }
 
-export function BirthReport({ onClose }: BirthReportProps) {
-  const [birthData, setBirthData] = useState<BirthData | null>(null);
-  const [analysis, setAnalysis] = useState<OptimalTimingResult | null>(null);
+const MODEL_FIELD_LABELS: Record<keyof ModelInfo, string> = {
+  version: 'model',
+  seed: 'seed',
+  solarProvider: 'solar data provider',
+  datasetVersion: 'sunspot data',
+  environmentalDatasetVersion: 'climate data',
+  schoolEntryDatasetVersion: 'school entry data',
+  lifeExpectancyDatasetVersion: 'life expectancy data'
+};
+
+const toBirthData = (location: LocationData, birthDate: Date): BirthData => ({
+  birthDate,
+  location,
+  cityName: location.city ?? getLocationLabel(location),
+  countryName: location.country ?? ''
+});
+
+const reportToBirthData = (report: OpenedReport): BirthData => toBirthData(report.location, report.analysis.birthDate);
+
+export function BirthReport({ onClose, profile, initialReport, initialLocation, initialDate }: BirthReportProps) {
+  const [birthData, setBirthData] = useState<BirthData | null>(() => initialReport ? reportToBirthData(initialReport) : null);
+  const [analysis, setAnalysis] = useState<OptimalTimingResult | null>(() => initialReport?.analysis ?? null);
+  const [openedReport, setOpenedReport] = useState<OpenedReport | null>(initialReport ?? null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Form states
-  const [birthDateString, setBirthDateString] = useState('');
-  const [birthLocation, setBirthLocation] = useState('');
+  const [birthDateString, setBirthDateString] = useState(() => initialDate ? formatCivilDate(initialDate) : '');
+  const [birthLocation, setBirthLocation] = useState(() => initialLocation ? getLocationLabel(initialLocation) : '');
   const [geocoding, setGeocoding] = useState(false);
   const [locationSuggestions, setLocationSuggestions] = useState<string[]>([]);
+  const suggestionQueryRef = useRef('');
+  const prefillReportedRef = useRef(false);
+
+  // A prefilled location and date (e.g. a shared report link) open straight on the report
+  useEffect(() => {
+    if (prefillReportedRef.current || initialReport || !initialLocation || !initialDate) return;
+    prefillReportedRef.current = true;
+
+    setBirthData(toBirthData(initialLocation, initialDate));
+    setLoading(true);
+    calculateOptimalTiming(initialLocation, initialDate, 24, { profile })
+      .then(setAnalysis)
+      .catch((err) => {
+        console.error('Report generation failed:', err);
+        setError('Failed to generate the report. Please try again.');
+      })
+      .finally(() => setLoading(false));
+  }, [initialReport, initialLocation, initialDate, profile]);
+
+  const generateReport = async (data: BirthData) => {
+    setBirthData(data);
+    setOpenedReport(null);
+    setAnalysis(await calculateOptimalTiming(data.location, data.birthDate, 24, { profile }));
+  };
 
   const handleGenerateReport = async () => {
     setError(null);
@@ -56,43 +129,32 @@ export function BirthReport({ onClose }: BirthReportProps) {
       return;
     }
 
-    let birthDate: Date;
-    try {
-      birthDate = parse(birthDateString, 'yyyy-MM-dd', new Date());
-    } catch {
+    // The entered date is the calendar date at the birth location, whatever zone this browser is in
+    const birthDate = parseCivilDate(birthDateString);
+    if (!birthDate) {
       setError('Please enter a valid date in YYYY-MM-DD format');
       return;
     }
 
     setLoading(true);
-    setGeocoding(true);
 
     try {
-      // Geocode the location
+      // The prefilled location is used as is unless the user has typed another one
+      if (initialLocation && birthLocation === getLocationLabel(initialLocation)) {
+        await generateReport(toBirthData(initialLocation, birthDate));
+        return;
+      }
+
+      setGeocoding(true);
       const geocodingResult: GeocodingResult = await geocodeAddress(birthLocation);
-      
-      const location: LocationData = {
-        latitude: geocodingResult.latitude,
-        longitude: geocodingResult.longitude,
-        city: geocodingResult.city,
-        country: geocodingResult.country,
-        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
-      };
-
-      const data: BirthData = {
+      setGeocoding(false);
+
+      await generateReport({
         birthDate,
-        location,
+        location: await toLocationData(geocodingResult),
         cityName: geocodingResult.city,
         countryName: geocodingResult.country
-      };
-
-      setBirthData(data);
-      setGeocoding(false);
-      
-      // Generate analysis
-      const result = await calculateOptimalTiming(location, birthDate);
-      setAnalysis(result);
-      
+      });
     } catch (err) {
       console.error('Report generation failed:', err);
       if (err && typeof err === 'object' && 'code' in err && 'message' in err) {
@@ -107,63 +169,92 @@ export function BirthReport({ onClose }: BirthReportProps) {
   };
 
   // Handle location input changes and provide suggestions
-  const handleLocationChange = (value: string) => {
+  const handleLocationChange = async (value: string) => {
     setBirthLocation(value);
-    if (value.length >= 2) {
-      const suggestions = suggestLocations(value);
-      setLocationSuggestions(suggestions);
-    } else {
-      setLocationSuggestions([]);
-    }
+    suggestionQueryRef.current = value;
+    const suggestions = await suggestLocations(value);
+    if (suggestionQueryRef.current === value) setLocationSuggestions(suggestions);
   };
 
   const handleSuggestionClick = (suggestion: string) => {
     setBirthLocation(suggestion);
+    suggestionQueryRef.current = '';
     setLocationSuggestions([]);
   };
 
-  const handleExportReport = () => {
-    if (!birthData || !analysis) return;
-
-    const reportData = {
-      title: `Birth Analysis Report for ${birthData.cityName}, ${birthData.countryName}`,
-      birthDate: format(birthData.birthDate, 'MMMM dd, yyyy'),
-      location: {
-        city: birthData.cityName,
-        country: birthData.countryName,
-        coordinates: `${birthData.location.latitude}, ${birthData.location.longitude}`
-      },
-      analysis: {
-        overallScore: analysis.overallScore,
-        lifeExpectancyDelta: analysis.lifeExpectancyDelta,
-        confidenceLevel: analysis.confidenceLevel,
-        riskFactors: analysis.riskFactors.map(rf => ({
-          name: rf.name,
-          category: rf.category,
-          severity: rf.severity,
-          description: rf.description
-        })),
-        solarData: analysis.solarData,
-        seasonalData: analysis.seasonalData,
-        recommendations: analysis.recommendations
-      },
-      generatedAt: new Date().toISOString()
-    };
-
-    const blob = new Blob([JSON.stringify(reportData, null, 2)], {
-      type: 'application/json'
-    });
-
+  const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `birth-report-${format(birthData.birthDate, 'yyyy-MM-dd')}-${birthData.cityName.replace(/\s+/g, '-')}.json`;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
+  const handleExportReport = () => {
+    if (!birthData || !analysis) return;
+
+    const savedReport = buildSavedReport({
+      source: 'birth-report',
+      analysis,
+      citations: getAnalysisCitations(analysis)
+    });
+    const blob = new Blob([JSON.stringify(savedReport, null, 2)], {
+      type: 'application/json'
+    });
+    downloadBlob(blob, getSavedReportFilename(savedReport));
+  };
+
+  const handleOpenReport = (report: OpenedReport) => {
+    setBirthData(reportToBirthData(report));
+    setAnalysis(report.analysis);
+    setOpenedReport(report);
+    setError(null);
+  };
+
+  // Reruns a saved report on the current engine with its original profile and seed
+  const handleRecompute = async () => {
+    if (!birthData || !analysis) return;
+
+    setLoading(true);
+    try {
+      const result = await calculateOptimalTiming(birthData.location, birthData.birthDate, 24, {
+        profile: analysis.scoringProfile,
+        seed: analysis.model.seed
+      });
+      setAnalysis(result);
+      setOpenedReport(null);
+      toast.success(`Recomputed with model ${result.model.version}`);
+    } catch (err) {
+      console.error('Recompute failed:', err);
+      toast.error('Could not recompute the report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Falls back to the print stylesheet when the PDF can't be built. An opened report is exported
+  // from its saved data until it is recomputed, so the PDF matches the scores on screen.
+  const handleExportPdf = async () => {
+    if (!birthData) return;
+
+    try {
+      const report = openedReport
+        ? getOpenedReportPdfContent(openedReport)
+        : await generateOptimalityReport(birthData.location, birthData.birthDate, {
+          profile: analysis?.scoringProfile ?? profile,
+          seed: analysis?.model.seed
+        });
+      downloadBlob(await generateReportPdf(report, birthData.location), getReportPdfFilename(report, birthData.location));
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      toast.error('Could not create the PDF, opening the print dialog instead');
+      window.print();
+    }
+  };
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-600';
     if (score >= 60) return 'text-yellow-600';
@@ -193,12 +284,31 @@ export function BirthReport({ onClose }: BirthReportProps) {
                 Analyze the timing and environmental factors at the time of your birth
               </p>
             </div>
-            <div className="flex gap-2">
+            <div className="flex gap-2 print:hidden">
+              <OpenReportButton onOpen={handleOpenReport} />
               {analysis && (
-                <Button onClick={handleExportReport} variant="outline">
-                  <Download className="h-4 w-4 mr-2" />
-                  Export Report
-                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline">
+                      <Download className="h-4 w-4 mr-2" />
+                      Export Report
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={handleExportPdf}>
+                      <FileText className="h-4 w-4 mr-2" />
+                      PDF Report
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => window.print()}>
+                      <Printer className="h-4 w-4 mr-2" />
+                      Print
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleExportReport}>
+                      <FileJson className="h-4 w-4 mr-2" />
+                      JSON Data
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               )}
               <Button onClick={onClose} variant="outline">
                 Back to Calculator
@@ -292,6 +402,36 @@ export function BirthReport({ onClose }: BirthReportProps) {
         ) : (
           // Report Results
           <div className="space-y-8">
+            {/* Saved report notice */}
+            {openedReport && (
+              <Alert className="print:hidden">
+                <Info className="h-4 w-4" />
+                <AlertDescription className="space-y-2">
+                  <div>
+                    Opened from a report saved on {format(openedReport.exportedAt, 'MMMM d, yyyy')}
+                    {openedReport.alternatives && openedReport.alternatives.length > 0 && (
+                      <> · Higher-scoring alternatives then: {openedReport.alternatives
+                        .map(alt => `${format(alt.birthDate, 'MMMM yyyy')} (${alt.overallScore})`)
+                        .join(', ')}</>
+                    )}
+                  </div>
+                  {openedReport.outdatedModelFields.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span>
+                        It was produced by model {analysis.model.version} and the current model is {getModelInfo().version}
+                        {' '}(changed: {openedReport.outdatedModelFields.map(field => MODEL_FIELD_LABELS[field]).join(', ')}).
+                        Scores may differ from a fresh analysis.
+                      </span>
+                      <Button size="sm" variant="outline" onClick={handleRecompute} disabled={loading}>
+                        <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                        Recompute
+                      </Button>
+                    </div>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Report Header */}
             <Card>
               <CardHeader className="text-center">
@@ -305,7 +445,10 @@ export function BirthReport({ onClose }: BirthReportProps) {
                   </div>
                   <div className="flex items-center justify-center gap-2 text-muted-foreground">
                     <MapPin className="h-4 w-4" />
-                    {birthData.cityName}, {birthData.countryName}
+                    {[birthData.cityName, birthData.countryName].filter(Boolean).join(', ')}
+                    {birthData.location.timezone && (
+                      <span className="text-sm">({birthData.location.timezone})</span>
+                    )}
                   </div>
                 </div>
               </CardHeader>
@@ -325,9 +468,14 @@ export function BirthReport({ onClose }: BirthReportProps) {
                   <div className="text-xl font-medium">
                     {getScoreDescription(analysis.overallScore)} Timing
                   </div>
-                  <Badge variant="outline" className="text-sm">
-                    {analysis.confidenceLevel} Confidence
-                  </Badge>
+                  <div className="flex items-center justify-center gap-2">
+                    <Badge variant="outline" className="text-sm">
+                      {analysis.confidenceLevel} Confidence
+                    </Badge>
+                    <Badge variant="secondary" className="text-sm">
+                      {analysis.scoringProfile.name} profile
+                    </Badge>
+                  </div>
                   
                   {analysis.lifeExpectancyDelta !== 0 && (
                     <div className="flex items-center justify-center gap-2 p-4 bg-muted/30 rounded-lg">
@@ -370,6 +518,15 @@ export function BirthReport({ onClose }: BirthReportProps) {
                     {analysis.solarData.solarRisk} RISK
                   </Badge>
                   <div className="text-xs text-muted-foreground space-y-1">
+                    <div>
+                      {analysis.solarData.dataSource === 'historical'
+                        ? 'Observed monthly sunspot record'
+                        : analysis.solarData.dataSource === 'reconstructed'
+                          ? `Reconstructed from the SILSO cycle table (dataset ${analysis.model.datasetVersion})`
+                          : analysis.solarData.dataSource === 'forecast'
+                            ? 'Forecast (beyond the recorded cycles)'
+                            : 'Simulated solar model'}
+                    </div>
                     <div>UV Level: {analysis.solarData.uvRadiationLevel}/11</div>
                     <div>Mental Health Factor: {analysis.solarData.mentalHealthMultiplier}x</div>
                   </div>
@@ -462,6 +619,7 @@ export function BirthReport({ onClose }: BirthReportProps) {
                             >
                               {factor.severity}
                             </Badge>
+                            <FactorEvidence factor={factor} />
                           </div>
                           <p className="text-sm text-muted-foreground">{factor.description}</p>
                           <div className="text-xs text-muted-foreground mt-1">
@@ -482,10 +640,10 @@ export function BirthReport({ onClose }: BirthReportProps) {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {analysis.recommendations.map((rec, index) => (
-                    <div key={index} className="flex items-start gap-3 p-4 bg-muted/30 rounded-lg">
+                  {analysis.recommendations.map((rec) => (
+                    <div key={rec.id} className="flex items-start gap-3 p-4 bg-muted/30 rounded-lg">
                       <Heart className="h-5 w-5 text-red-500 mt-0.5" />
-                      <p className="text-sm">{rec}</p>
+                      <p className="text-sm">{formatRecommendation(rec)}</p>
                     </div>
                   ))}
                 </div>
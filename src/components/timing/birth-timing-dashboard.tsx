@@ -1,38 +1,139 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Download, AlertCircle, Info, Calculator, FileText } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Download, AlertCircle, Info, Calculator, FileText, GitCompare, Link2, Printer, FileJson, FileSpreadsheet, CalendarPlus } from 'lucide-react';
 import { LocationBanner } from './location-banner';
 import { FullWidthOptimality } from './full-width-optimality';
 import { FullWidthTiming } from './full-width-timing';
 import { FullWidthAnalysis } from './full-width-analysis';
 import { RecommendationPanel } from './recommendation-panel';
 import { BirthReport } from './birth-report';
+import { ConceptionPlanner } from './conception-planner';
+import { LocationComparison } from './location-comparison';
+import { OpenReportButton } from './open-report-button';
 import { getCurrentLocation, LocationData, GeolocationError } from '@/lib/geolocation';
-import { calculateOptimalTiming, analyzeTimingRange, OptimalTimingResult, generateOptimalityReport } from '@/lib/optimal-timing';
-import { addMonths } from 'date-fns';
+import { AnalysisResolution, OptimalTimingResult } from '@/lib/optimal-timing';
+import { ValueRange } from '@/lib/solar-cycle';
+import { loadLocationHistory } from '@/lib/location-history';
+import { getCivilToday } from '@/lib/civil-date';
+import { generateReportPdf, getReportPdfFilename } from '@/lib/pdf-report';
+import { buildSavedReport, getSavedReportFilename, OpenedReport } from '@/lib/report-schema';
+import { buildOptimalWindowsCalendar, buildTimingCsv, getTimingExportFilename } from '@/lib/timing-export';
+import { buildDashboardQuery, DashboardMode, parseDashboardUrlState, RecommendationTab } from '@/lib/url-state';
+import { useScoringProfile } from '@/hooks/use-scoring-profile';
+import { useLocationHistory } from '@/hooks/use-location-history';
+import { useTimingWorker } from '@/hooks/use-timing-worker';
+
+type ScorePoint = {
+  date: Date;
+  score: number;
+  lifeExpectancyDelta?: number;
+  lifeExpectancyRange?: ValueRange;
+  baselineLifeExpectancy?: number;
+};
+
+const toScorePoint = (result: OptimalTimingResult): ScorePoint => ({
+  date: result.birthDate,
+  score: result.overallScore,
+  lifeExpectancyDelta: result.lifeExpectancyDelta,
+  lifeExpectancyRange: result.lifeExpectancyRange,
+  baselineLifeExpectancy: result.baselineLifeExpectancy
+});
 
 export function BirthTimingDashboard() {
-  const [mode, setMode] = useState<'calculator' | 'report'>('calculator');
+  const [mode, setMode] = useState<DashboardMode>('calculator');
+  const [recommendationTab, setRecommendationTab] = useState<RecommendationTab>('all');
+  const [urlRestored, setUrlRestored] = useState(false);
+  const [openedReport, setOpenedReport] = useState<OpenedReport | undefined>();
+  // Location and date a shared report link opens the birth report with
+  const [sharedReportInput, setSharedReportInput] = useState<{ location?: LocationData; date?: Date } | undefined>();
   const [location, setLocation] = useState<LocationData | undefined>();
   const [locationError, setLocationError] = useState<string | undefined>();
   const [locationLoading, setLocationLoading] = useState(false);
   
-  const [selectedDate, setSelectedDate] = useState(new Date());
-  const [debouncedDate, setDebouncedDate] = useState(new Date());
+  const [selectedDate, setSelectedDate] = useState(() => getCivilToday());
+  const [debouncedDate, setDebouncedDate] = useState(() => getCivilToday());
   const [currentAnalysis, setCurrentAnalysis] = useState<OptimalTimingResult | undefined>();
-  const [monthlyScores, setMonthlyScores] = useState<Array<{ date: Date; score: number; lifeExpectancyDelta?: number }>>([]);
+  const [monthlyScores, setMonthlyScores] = useState<ScorePoint[]>([]);
+  const [scoreCurve, setScoreCurve] = useState<ScorePoint[]>([]);
+  const [curveResolution, setCurveResolution] = useState<AnalysisResolution>('weekly');
   const [analysisLoading, setAnalysisLoading] = useState(false);
   const [isSliding, setIsSliding] = useState(false);
+  const { profile, applySessionProfile } = useScoringProfile();
+  const { analyze, generateReport, analyzeRange } = useTimingWorker();
+  const { rememberLocation } = useLocationHistory();
   
-  // Get location on component mount
+  const handleLocationRefresh = useCallback(async () => {
+    setLocationLoading(true);
+    setLocationError(undefined);
+    
+    try {
+      const locationData = await getCurrentLocation();
+      setLocation(locationData);
+      rememberLocation(locationData);
+    } catch (error) {
+      const geoError = error as GeolocationError;
+      setLocationError(geoError.message);
+    } finally {
+      setLocationLoading(false);
+    }
+  }, [rememberLocation]);
+
+  // A shared link wins over the last used location, which wins over the browser's geolocation.
+  // Read once on mount: the static export has no server to pass the query string in.
   useEffect(() => {
-    handleLocationRefresh();
-  }, []);
+    let cancelled = false;
+
+    const restore = async () => {
+      const shared = await parseDashboardUrlState(window.location.search);
+      if (cancelled) return;
+
+      if (shared.date) {
+        setSelectedDate(shared.date);
+        setDebouncedDate(shared.date);
+      }
+      if (shared.mode) setMode(shared.mode);
+      if (shared.tab) setRecommendationTab(shared.tab);
+      // Applies to this visit only; the recipient's saved profile changes only when they edit it
+      if (shared.profile) applySessionProfile(shared.profile);
+
+      const stored = loadLocationHistory().current;
+      if (shared.mode === 'report') {
+        setSharedReportInput({ location: shared.location ?? stored, date: shared.date });
+      }
+      if (shared.location) {
+        setLocation(shared.location);
+      } else if (stored) {
+        setLocation(stored);
+      } else {
+        handleLocationRefresh();
+      }
+      setUrlRestored(true);
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [handleLocationRefresh, applySessionProfile]);
+
+  // Keep the address bar in sync so the current view can be shared as a link
+  useEffect(() => {
+    if (!urlRestored) return;
+    const query = buildDashboardQuery({ location, date: debouncedDate, mode, tab: recommendationTab, profile });
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, [urlRestored, location, debouncedDate, mode, recommendationTab, profile]);
 
   // Debounce selectedDate changes
   useEffect(() => {
@@ -44,55 +145,45 @@ export function BirthTimingDashboard() {
     return () => clearTimeout(timeout);
   }, [selectedDate]);
   
-  // Recalculate when location or debounced date changes
+  // Recalculate when location or debounced date changes. The worker streams the selected date first,
+  // then the monthly series for the slider and the finer score curve; a newer request cancels this one.
   useEffect(() => {
     if (!location) return;
     
-    const performAnalysis = async () => {
-      setAnalysisLoading(true);
-      try {
-        // Calculate current timing
-        const analysis = await calculateOptimalTiming(location, debouncedDate);
-        setCurrentAnalysis(analysis);
-        
-        // Calculate monthly scores for visualization - get ALL analyses for full variation
-        const analyses: OptimalTimingResult[] = [];
-        for (let i = -12; i <= 12; i++) {
-          const testDate = addMonths(debouncedDate, i);
-          const monthAnalysis = await calculateOptimalTiming(location, testDate);
-          analyses.push(monthAnalysis);
+    setAnalysisLoading(true);
+    const resolutions: AnalysisResolution[] = curveResolution === 'monthly' ? ['monthly'] : ['monthly', curveResolution];
+    const series: Record<AnalysisResolution, ScorePoint[]> = { monthly: [], weekly: [], daily: [] };
+    
+    const cancel = analyze(
+      { location, centerDate: debouncedDate, rangeMonths: 12, resolutions, options: { profile } },
+      (response) => {
+        switch (response.type) {
+          case 'current':
+            setCurrentAnalysis(response.result);
+            setAnalysisLoading(false);
+            break;
+          case 'partial': {
+            const points = [...series[response.resolution], ...response.results.map(toScorePoint)];
+            series[response.resolution] = points;
+            if (response.resolution === 'monthly') setMonthlyScores(points);
+            if (response.resolution === curveResolution) setScoreCurve(points);
+            break;
+          }
+          case 'error':
+            console.error('Analysis failed:', response.message);
+            setAnalysisLoading(false);
+            break;
         }
-        
-        const scores = analyses.map(w => ({
-          date: w.birthDate,
-          score: w.overallScore,
-          lifeExpectancyDelta: w.lifeExpectancyDelta
-        }));
-        setMonthlyScores(scores);
-        
-      } catch (error) {
-        console.error('Analysis failed:', error);
-      } finally {
-        setAnalysisLoading(false);
       }
-    };
-
-    performAnalysis();
-  }, [location, debouncedDate]);
+    );
+    
+    return cancel;
+  }, [location, debouncedDate, profile, curveResolution, analyze]);
 
-  const handleLocationRefresh = async () => {
-    setLocationLoading(true);
+  const handleLocationSelect = (locationData: LocationData) => {
+    setLocation(locationData);
     setLocationError(undefined);
-    
-    try {
-      const locationData = await getCurrentLocation();
-      setLocation(locationData);
-    } catch (error) {
-      const geoError = error as GeolocationError;
-      setLocationError(geoError.message);
-    } finally {
-      setLocationLoading(false);
-    }
+    rememberLocation(locationData);
   };
 
   const handleDateChange = useCallback((date: Date) => {
@@ -100,41 +191,109 @@ export function BirthTimingDashboard() {
     setIsSliding(true);
   }, []);
 
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link copied to clipboard');
+    } catch (error) {
+      console.error('Copy failed:', error);
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const handleExportReport = async () => {
     if (!location || !currentAnalysis) return;
     
     try {
-      const report = await generateOptimalityReport(location, selectedDate);
+      const report = await generateReport(location, selectedDate, { profile });
       
-      const reportData = {
-        ...report,
-        exportDate: new Date().toISOString(),
-        location: {
-          city: location.city,
-          country: location.country,
-          coordinates: `${location.latitude}, ${location.longitude}`
-        }
-      };
+      const savedReport = buildSavedReport({
+        source: 'dashboard',
+        analysis: report.analysis,
+        citations: report.scientificBasis,
+        report
+      });
       
-      const blob = new Blob([JSON.stringify(reportData, null, 2)], {
+      const blob = new Blob([JSON.stringify(savedReport, null, 2)], {
         type: 'application/json'
       });
-      
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `birth-timing-analysis-${selectedDate.getFullYear()}-${selectedDate.getMonth() + 1}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, getSavedReportFilename(savedReport));
     } catch (error) {
       console.error('Export failed:', error);
     }
   };
 
+  // The print stylesheet is the fallback when the PDF can't be built (e.g. jsPDF failed to load)
+  const handleExportPdf = async () => {
+    if (!location || !currentAnalysis) return;
+
+    try {
+      const report = await generateReport(location, selectedDate, { profile });
+      downloadBlob(await generateReportPdf(report, location), getReportPdfFilename(report, location));
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      toast.error('Could not create the PDF, opening the print dialog instead');
+      window.print();
+    }
+  };
+
+  // Same 12-month window the dashboard analyzes, one result per month
+  const handleExportRange = async (kind: 'csv' | 'ics') => {
+    if (!location || !currentAnalysis) return;
+
+    try {
+      const analysis = await analyzeRange(location, selectedDate, 12, { profile });
+      const blob = kind === 'csv'
+        ? new Blob([buildTimingCsv(analysis)], { type: 'text/csv;charset=utf-8' })
+        : new Blob([buildOptimalWindowsCalendar(analysis, location)], { type: 'text/calendar;charset=utf-8' });
+      downloadBlob(blob, getTimingExportFilename(analysis, location, kind));
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast.error('Export failed');
+    }
+  };
+
+  const handleOpenReport = (report: OpenedReport) => {
+    setOpenedReport(report);
+    setMode('report');
+  };
+
   if (mode === 'report') {
-    return <BirthReport onClose={() => setMode('calculator')} />;
+    return (
+      <BirthReport
+        onClose={() => {
+          setOpenedReport(undefined);
+          setSharedReportInput(undefined);
+          setMode('calculator');
+        }}
+        profile={profile}
+        initialReport={openedReport}
+        initialLocation={sharedReportInput?.location}
+        initialDate={sharedReportInput?.date}
+      />
+    );
+  }
+
+  if (mode === 'compare') {
+    return (
+      <LocationComparison
+        onClose={() => setMode('calculator')}
+        centerDate={selectedDate}
+        initialLocation={location}
+        profile={profile}
+      />
+    );
   }
 
   return (
@@ -151,7 +310,7 @@ export function BirthTimingDashboard() {
                 Scientific analysis of conception and birth timing based on solar cycles, seasonality, and geographic factors
               </p>
             </div>
-            <div className="flex gap-2">
+            <div className="flex gap-2 print:hidden">
               <Button 
                 onClick={() => setMode('report')} 
                 variant="outline"
@@ -159,14 +318,52 @@ export function BirthTimingDashboard() {
                 <FileText className="h-4 w-4 mr-2" />
                 Birth Report
               </Button>
+              <OpenReportButton onOpen={handleOpenReport} />
               <Button 
-                onClick={handleExportReport} 
-                disabled={!currentAnalysis}
+                onClick={() => setMode('compare')} 
                 variant="outline"
               >
-                <Download className="h-4 w-4 mr-2" />
-                Export Report
+                <GitCompare className="h-4 w-4 mr-2" />
+                Compare Locations
               </Button>
+              <Button 
+                onClick={handleCopyLink} 
+                disabled={!location}
+                variant="outline"
+              >
+                <Link2 className="h-4 w-4 mr-2" />
+                Share Link
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button disabled={!currentAnalysis} variant="outline">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export Report
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={handleExportPdf}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    PDF Report
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => window.print()}>
+                    <Printer className="h-4 w-4 mr-2" />
+                    Print
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExportRange('csv')}>
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Monthly Scores (CSV)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExportRange('ics')}>
+                    <CalendarPlus className="h-4 w-4 mr-2" />
+                    Optimal Windows (Calendar)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleExportReport}>
+                    <FileJson className="h-4 w-4 mr-2" />
+                    JSON Data
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </div>
@@ -188,6 +385,7 @@ export function BirthTimingDashboard() {
       <LocationBanner
         location={location}
         onLocationRefresh={handleLocationRefresh}
+        onLocationSelect={handleLocationSelect}
         isLoading={locationLoading}
         error={locationError}
       />
@@ -203,20 +401,26 @@ export function BirthTimingDashboard() {
 
         {/* 2. Birth Timing Selection Panel */}
         <FullWidthTiming
-          currentDate={new Date()}
+          currentDate={getCivilToday(location?.timezone)}
           selectedDate={selectedDate}
           onDateChange={handleDateChange}
           scores={monthlyScores}
           range={24}
           isLoading={analysisLoading || isSliding}
+          location={location}
         />
 
         {/* 3. Combined Risk Factor Analysis & Life Expectancy Panel */}
         <FullWidthAnalysis
           analysis={currentAnalysis}
-          monthlyData={monthlyScores}
+          timelineData={scoreCurve}
+          resolution={curveResolution}
+          onResolutionChange={setCurveResolution}
           isLoading={analysisLoading || isSliding}
         />
+
+        {/* 4. Conception Planner Panel */}
+        <ConceptionPlanner location={location} profile={profile} />
       </div>
 
       {/* Recommendations Section - Below the fold, full width */}
@@ -235,6 +439,8 @@ export function BirthTimingDashboard() {
             <RecommendationPanel
               recommendations={currentAnalysis.recommendations}
               analysis={currentAnalysis}
+              category={recommendationTab}
+              onCategoryChange={setRecommendationTab}
             />
           </div>
         </div>
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Baby, CalendarRange } from 'lucide-react';
+import { addMonths, format } from 'date-fns';
+import { formatCivilDate, getCivilToday, parseCivilDate } from '@/lib/civil-date';
+import { LocationData } from '@/lib/geolocation';
+import { ScoringProfile } from '@/lib/scoring-profiles';
+import { ConceptionInput, ConceptionPlan, planConception } from '@/lib/conception-planner';
+import { useTimingWorker } from '@/hooks/use-timing-worker';
+
+interface ConceptionPlannerProps {
+  location?: LocationData;
+  profile?: ScoringProfile;
+}
+
+type PlannerInputType = ConceptionInput['type'];
+
+export function ConceptionPlanner({ location, profile }: ConceptionPlannerProps) {
+  const [inputType, setInputType] = useState<PlannerInputType>('conception-window');
+  const [windowStart, setWindowStart] = useState(() => formatCivilDate(getCivilToday(location?.timezone)));
+  const [windowEnd, setWindowEnd] = useState(() => formatCivilDate(addMonths(getCivilToday(location?.timezone), 12)));
+  const [lmpDate, setLmpDate] = useState(() => formatCivilDate(getCivilToday(location?.timezone)));
+  const [cycleLength, setCycleLength] = useState('28');
+  const [plan, setPlan] = useState<ConceptionPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { evaluateGrid } = useTimingWorker();
+
+  const buildInput = (): ConceptionInput | null => {
+    if (inputType === 'conception-window') {
+      const start = parseCivilDate(windowStart);
+      const end = parseCivilDate(windowEnd);
+      if (!start || !end || end < start) {
+        setError('Please enter a conception window with the end after the start');
+        return null;
+      }
+      return { type: 'conception-window', start, end };
+    }
+
+    const date = parseCivilDate(lmpDate);
+    const cycleLengthDays = Number(cycleLength);
+    if (!date || !Number.isFinite(cycleLengthDays) || cycleLengthDays < 21 || cycleLengthDays > 45) {
+      setError('Please enter a valid period date and a cycle length between 21 and 45 days');
+      return null;
+    }
+    return { type: 'last-menstrual-period', date, cycleLengthDays };
+  };
+
+  const handlePlan = async () => {
+    if (!location) return;
+    setError(null);
+
+    const input = buildInput();
+    if (!input) return;
+
+    setLoading(true);
+    try {
+      setPlan(await planConception(location, input, { profile, evaluateGrid }));
+    } catch (err) {
+      console.error('Conception planning failed:', err);
+      setError('Failed to plan conception timing. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <Baby className="h-6 w-6" />
+          Conception Planner
+        </CardTitle>
+        <p className="text-muted-foreground mt-1">
+          Rank conception months by the expected score over the likely spread of birth dates
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Plan from</Label>
+            <Select value={inputType} onValueChange={(value) => setInputType(value as PlannerInputType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="conception-window">Conception window</SelectItem>
+                <SelectItem value="last-menstrual-period">Last menstrual period</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {inputType === 'conception-window' ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="window-start">Earliest conception</Label>
+                <Input id="window-start" type="date" value={windowStart} onChange={(e) => setWindowStart(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="window-end">Latest conception</Label>
+                <Input id="window-end" type="date" value={windowEnd} onChange={(e) => setWindowEnd(e.target.value)} />
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="lmp-date">First day of last period</Label>
+                <Input id="lmp-date" type="date" value={lmpDate} onChange={(e) => setLmpDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cycle-length">Cycle length (days)</Label>
+                <Input id="cycle-length" type="number" min={21} max={45} value={cycleLength} onChange={(e) => setCycleLength(e.target.value)} />
+              </div>
+            </>
+          )}
+
+          <Button onClick={handlePlan} disabled={!location || loading}>
+            <CalendarRange className="h-4 w-4 mr-2" />
+            {loading ? 'Planning...' : 'Plan Conception'}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {plan && plan.months.length > 0 && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[3rem_1fr_8rem_1fr] gap-4 text-xs text-muted-foreground px-3">
+              <span>Rank</span>
+              <span>Conception month</span>
+              <span>Expected score</span>
+              <span>Likely birth (80% range)</span>
+            </div>
+            {plan.months.map(month => (
+              <div
+                key={month.month.getTime()}
+                className={`grid grid-cols-[3rem_1fr_8rem_1fr] gap-4 items-center p-3 border rounded-lg ${
+                  month.rank <= 3 ? 'border-green-200 bg-green-50' : ''
+                }`}
+              >
+                <span className="font-medium">#{month.rank}</span>
+                <div>
+                  <div className="font-medium">{format(month.month, 'MMMM yyyy')}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {format(month.conceptionWindow.start, 'MMM d')}
+                    {month.conceptionWindow.end.getTime() !== month.conceptionWindow.start.getTime() &&
+                      ` - ${format(month.conceptionWindow.end, 'MMM d')}`}
+                  </div>
+                </div>
+                <div>
+                  <Badge variant="outline">{month.expectedScore.toFixed(1)}/100</Badge>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {month.scoreRange.low} to {month.scoreRange.high}
+                  </div>
+                </div>
+                <div className="text-sm">
+                  Due {format(month.dueDate, 'MMM d, yyyy')}
+                  <div className="text-xs text-muted-foreground">
+                    {format(month.birthWindow.start, 'MMM d')} - {format(month.birthWindow.end, 'MMM d, yyyy')}
+                  </div>
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Birth dates assume a mean gestation of {plan.gestation.meanDays} days from the last period with
+              about {Math.round(plan.gestation.pretermProbability * 100)}% preterm births.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { HelpCircle } from 'lucide-react';
+import { RiskFactor } from '@/lib/optimal-timing';
+import { CITATIONS, formatCitation, formatEffectSize, getEvidence } from '@/lib/evidence';
+
+interface FactorEvidenceProps {
+  factor: RiskFactor;
+}
+
+// "Why this number?" dialog showing how a factor's impact was derived and the evidence behind it
+export function FactorEvidence({ factor }: FactorEvidenceProps) {
+  const evidence = getEvidence(factor.evidence);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" aria-label={`Why this number: ${factor.name}`}>
+          <HelpCircle className="h-4 w-4 text-muted-foreground" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{factor.name}: {factor.impact > 0 ? '+' : ''}{factor.impact}</DialogTitle>
+          <DialogDescription>{factor.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="space-y-1">
+            <div className="font-medium">How this number was calculated</div>
+            <p className="text-muted-foreground">{factor.calculation}</p>
+            <p className="text-muted-foreground">{evidence.modelUsage}</p>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">Evidence</span>
+              <Badge variant={evidence.effectSize.basis === 'published' ? 'default' : 'outline'} className="text-xs">
+                {evidence.effectSize.basis === 'published' ? 'Published estimate' : 'Model estimate'}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground">{evidence.claim}</p>
+            <p className="text-muted-foreground">{formatEffectSize(evidence.effectSize)}</p>
+            <p className="text-muted-foreground">Population: {evidence.population}</p>
+          </div>
+
+          <div className="space-y-1">
+            <div className="font-medium">Sources</div>
+            {evidence.citations.length === 0 ? (
+              <p className="text-muted-foreground">No published source is linked to this factor yet.</p>
+            ) : (
+              evidence.citations.map(id => (
+                <p key={id} className="text-muted-foreground">{formatCitation(CITATIONS[id])}</p>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,22 +2,30 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, PieChart, Pie, Cell, BarChart, Bar } from 'recharts';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, PieChart, Pie, Cell, BarChart, Bar } from 'recharts';
 import { format } from 'date-fns';
-import { TrendingUp, TrendingDown, Activity, PieChart as PieChartIcon } from 'lucide-react';
-import { OptimalTimingResult } from '@/lib/optimal-timing';
+import { TrendingUp, TrendingDown, Activity, AlertTriangle, PieChart as PieChartIcon } from 'lucide-react';
+import { AnalysisResolution, OptimalTimingResult } from '@/lib/optimal-timing';
+import { ValueRange } from '@/lib/solar-cycle';
+import { SCORE_CATEGORIES, ScoreCategory } from '@/lib/scoring-profiles';
+import { formatProjectionBasis, getProjectionFallbackNotice } from '@/lib/life-expectancy';
+import { FactorEvidence } from './factor-evidence';
 
 interface FullWidthAnalysisProps {
   analysis?: OptimalTimingResult;
-  monthlyData: Array<{ date: Date; score: number; lifeExpectancyDelta?: number }>;
+  timelineData: Array<{ date: Date; score: number; lifeExpectancyDelta?: number; lifeExpectancyRange?: ValueRange; baselineLifeExpectancy?: number }>;
+  resolution?: AnalysisResolution;
+  onResolutionChange?: (resolution: AnalysisResolution) => void;
   isLoading?: boolean;
 }
 
 interface ChartDataPoint {
   month: string;
   score: number;
-  lifespanImpact: number;
   lifeExpectancyDelta: number;
+  baselineLifeExpectancy?: number;
+  lifeExpectancyBand: [number, number]; // Forecast uncertainty [low, high]
   date: Date;
 }
 
@@ -28,34 +36,44 @@ const COLORS = {
   environmental: '#8b5cf6'
 };
 
-export function FullWidthAnalysis({ analysis, monthlyData, isLoading }: FullWidthAnalysisProps) {
+const CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  solar: 'Solar',
+  seasonal: 'Seasonal',
+  geographic: 'Geographic',
+  environmental: 'Environmental'
+};
+
+const RESOLUTION_LABELS: Record<AnalysisResolution, string> = {
+  monthly: 'Monthly',
+  weekly: 'Weekly',
+  daily: 'Daily'
+};
+
+export function FullWidthAnalysis({ analysis, timelineData, resolution = 'monthly', onResolutionChange, isLoading }: FullWidthAnalysisProps) {
   // Transform data for the life expectancy chart
-  const chartData: ChartDataPoint[] = monthlyData.map(item => ({
-    month: format(item.date, 'MMM yy'),
+  const chartData: ChartDataPoint[] = timelineData.map(item => ({
+    month: format(item.date, resolution === 'monthly' ? 'MMM yy' : 'd MMM yy'),
     score: item.score,
-    lifespanImpact: calculateLifespanImpactForScore(item.score),
     lifeExpectancyDelta: item.lifeExpectancyDelta || 0,
+    baselineLifeExpectancy: item.baselineLifeExpectancy,
+    lifeExpectancyBand: [
+      item.lifeExpectancyRange?.low ?? item.lifeExpectancyDelta ?? 0,
+      item.lifeExpectancyRange?.high ?? item.lifeExpectancyDelta ?? 0
+    ],
     date: item.date
   }));
 
-  function calculateLifespanImpactForScore(score: number): number {
-    const baseline = 78.5; // Average lifespan
-    // More sophisticated impact calculation based on research
-    // Higher scores have exponential benefits, lower scores have steeper penalties
-    const normalizedScore = (score - 50) / 50; // -1 to 1 range
-    const impact = normalizedScore > 0 
-      ? normalizedScore * 2.5 // Up to +2.5 years for perfect scores
-      : normalizedScore * 3.2; // Up to -3.2 years for worst scores
-    return Math.round((baseline + impact) * 10) / 10;
-  }
-
   // Prepare data for category breakdown
-  const categoryData = [
-    { name: 'Solar', value: 40, color: COLORS.solar, score: analysis ? 100 - Math.abs(analysis.solarData.lifespanImpact) * 15 : 0 },
-    { name: 'Seasonal', value: 35, color: COLORS.seasonal, score: analysis?.seasonalData.overallSeasonalScore || 0 },
-    { name: 'Geographic', value: 15, color: COLORS.geographic, score: 75 },
-    { name: 'Environmental', value: 10, color: COLORS.environmental, score: 75 }
-  ];
+  const categoryData = analysis
+    ? SCORE_CATEGORIES
+        .filter(category => analysis.categoryWeights[category] > 0)
+        .map(category => ({
+          name: CATEGORY_LABELS[category],
+          value: Math.round(analysis.categoryWeights[category] * 100),
+          color: COLORS[category],
+          score: analysis.categoryScores[category]
+        }))
+    : [];
 
   // Prepare risk factor data with proper scaling and validation
   const riskFactorData = analysis?.riskFactors.map(factor => ({
@@ -66,13 +84,16 @@ export function FullWidthAnalysis({ analysis, monthlyData, isLoading }: FullWidt
     severity: factor.severity,
     category: factor.category,
     fullName: factor.name, // Store full name for tooltip
-    description: factor.description
+    description: factor.description,
+    factor
   })).sort((a, b) => {
     // Sort by impact value (positive first, then negative)
     if (a.positive !== b.positive) return b.positive ? 1 : -1;
     return b.displayImpact - a.displayImpact;
   }) || [];
 
+  const fallbackNotice = analysis && getProjectionFallbackNotice(analysis.lifeExpectancyProjection, analysis.location);
+
   const CustomTooltip = ({ active, payload, label }: { active?: boolean; payload?: Array<{ payload: ChartDataPoint }>; label?: string }) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload;
@@ -85,6 +106,17 @@ export function FullWidthAnalysis({ analysis, monthlyData, isLoading }: FullWidt
           <p className="text-sm text-muted-foreground">
             Life Expectancy Impact: {data.lifeExpectancyDelta >= 0 ? '+' : ''}{data.lifeExpectancyDelta.toFixed(2)} years
           </p>
+          {analysis && (
+            <p className="text-sm text-muted-foreground">
+              Est. Lifespan: {((data.baselineLifeExpectancy ?? analysis.baselineLifeExpectancy) + data.lifeExpectancyDelta).toFixed(1)} years
+              {fallbackNotice && ' (world average)'}
+            </p>
+          )}
+          {data.lifeExpectancyBand[0] !== data.lifeExpectancyBand[1] && (
+            <p className="text-xs text-muted-foreground">
+              Forecast range: {data.lifeExpectancyBand[0].toFixed(1)} to {data.lifeExpectancyBand[1].toFixed(1)} years
+            </p>
+          )}
         </div>
       );
     }
@@ -132,7 +164,7 @@ export function FullWidthAnalysis({ analysis, monthlyData, isLoading }: FullWidt
     );
   }
 
-  if (!analysis || monthlyData.length === 0) {
+  if (!analysis || timelineData.length === 0) {
     return (
       <Card>
         <CardHeader>
@@ -185,6 +217,11 @@ export function FullWidthAnalysis({ analysis, monthlyData, isLoading }: FullWidt
             ) : null}
             <Badge variant="outline" className="text-sm">
               {analysis.lifeExpectancyDelta >= 0 ? '+' : ''}{analysis.lifeExpectancyDelta} years
+              {analysis.lifeExpectancyRange.low !== analysis.lifeExpectancyRange.high && (
+                <span className="ml-1 text-muted-foreground">
+                  ({analysis.lifeExpectancyRange.low} to {analysis.lifeExpectancyRange.high})
+                </span>
+              )}
             </Badge>
           </div>
         </div>
@@ -193,24 +230,48 @@ export function FullWidthAnalysis({ analysis, monthlyData, isLoading }: FullWidt
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Life Expectancy Chart */}
           <div className="space-y-4">
-            <h3 className="text-lg font-semibold flex items-center gap-2">
-              <TrendingUp className="h-5 w-5 text-primary" />
-              Life Expectancy Trend
-            </h3>
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-lg font-semibold flex items-center gap-2">
+                <TrendingUp className="h-5 w-5 text-primary" />
+                Life Expectancy Trend
+              </h3>
+              {onResolutionChange && (
+                <Select value={resolution} onValueChange={(value) => onResolutionChange(value as AnalysisResolution)}>
+                  <SelectTrigger className="w-28 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RESOLUTION_LABELS) as AnalysisResolution[]).map(option => (
+                      <SelectItem key={option} value={option}>
+                        {RESOLUTION_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
             
+            {fallbackNotice && (
+              <div className="flex items-center gap-2 text-xs text-yellow-700">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                {fallbackNotice}
+              </div>
+            )}
+
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={chartData}>
+                <ComposedChart data={chartData}>
                   <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
                   <XAxis 
                     dataKey="month" 
+                    minTickGap={24}
                     fontSize={12}
                     tick={{ fill: 'hsl(var(--muted-foreground))' }}
                     axisLine={{ stroke: 'hsl(var(--border))' }}
                   />
                   <YAxis 
                     domain={(() => {
-                      const values = chartData.map(d => d.lifeExpectancyDelta);
+                      const values = chartData.flatMap(d => d.lifeExpectancyBand);
                       const min = Math.min(...values);
                       const max = Math.max(...values);
                       const range = max - min;
@@ -245,15 +306,25 @@ export function FullWidthAnalysis({ analysis, monthlyData, isLoading }: FullWidt
                     />
                   )}
                   
+                  {/* Forecast uncertainty band */}
+                  <Area
+                    type="monotone"
+                    dataKey="lifeExpectancyBand"
+                    stroke="none"
+                    fill="#10b981"
+                    fillOpacity={0.15}
+                    activeDot={false}
+                  />
+                  
                   <Line
                     type="monotone"
                     dataKey="lifeExpectancyDelta"
                     stroke="#10b981"
                     strokeWidth={3}
-                    dot={{ fill: '#10b981', strokeWidth: 2, r: 4 }}
+                    dot={resolution === 'monthly' ? { fill: '#10b981', strokeWidth: 2, r: 4 } : false}
                     activeDot={{ r: 6, fill: '#10b981' }}
                   />
-                </LineChart>
+                </ComposedChart>
               </ResponsiveContainer>
             </div>
 
@@ -286,6 +357,17 @@ export function FullWidthAnalysis({ analysis, monthlyData, isLoading }: FullWidt
                 </div>
               </div>
             </div>
+
+            <div className="p-3 bg-muted/30 rounded-lg text-center">
+              <div className="text-sm">
+                Projected lifespan{fallbackNotice && ' (world average)'}: <span className="font-semibold">
+                  {(analysis.baselineLifeExpectancy + analysis.lifeExpectancyDelta).toFixed(1)} years
+                </span>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {analysis.baselineLifeExpectancy} year baseline: {formatProjectionBasis(analysis.lifeExpectancyProjection)}
+              </div>
+            </div>
           </div>
 
           {/* Risk Factor Distribution */}
@@ -376,6 +458,7 @@ export function FullWidthAnalysis({ analysis, monthlyData, isLoading }: FullWidt
                         >
                           {factor.severity}
                         </Badge>
+                        <FactorEvidence factor={factor.factor} />
                       </div>
                     </div>
                   ))}
@@ -419,6 +502,7 @@ export function FullWidthAnalysis({ analysis, monthlyData, isLoading }: FullWidt
                         >
                           {factor.severity}
                         </Badge>
+                        <FactorEvidence factor={factor.factor} />
                       </div>
                     </div>
                   ))}
@@ -1,5 +1,6 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
@@ -15,7 +16,9 @@ import {
   Calendar
 } from 'lucide-react';
 import { OptimalTimingResult } from '@/lib/optimal-timing';
+import { explainScore, ScoreExplanation } from '@/lib/score-explanation';
 import { format } from 'date-fns';
+import { ScoreWaterfall } from './score-waterfall';
 
 interface FullWidthOptimalityProps {
   analysis?: OptimalTimingResult;
@@ -24,6 +27,20 @@ interface FullWidthOptimalityProps {
 }
 
 export function FullWidthOptimality({ analysis, isLoading, selectedDate }: FullWidthOptimalityProps) {
+  // Kept with the analysis it explains, so a stale breakdown never shows against a new score
+  const [explained, setExplained] = useState<{ analysis: OptimalTimingResult; explanation: ScoreExplanation }>();
+
+  useEffect(() => {
+    if (!analysis) return;
+    let cancelled = false;
+    explainScore(analysis).then(explanation => {
+      if (!cancelled) setExplained({ analysis, explanation });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [analysis]);
+
   if (isLoading) {
     return (
       <Card>
@@ -116,12 +133,17 @@ export function FullWidthOptimality({ analysis, isLoading, selectedDate }: FullW
               Comprehensive assessment of birth timing factors and health outcomes
             </p>
           </div>
-          <Badge 
-            variant="secondary" 
-            className={`${getConfidenceColor(analysis.confidenceLevel)} text-white`}
-          >
-            {analysis.confidenceLevel} Confidence
-          </Badge>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">
+              {analysis.scoringProfile.name} profile
+            </Badge>
+            <Badge 
+              variant="secondary" 
+              className={`${getConfidenceColor(analysis.confidenceLevel)} text-white`}
+            >
+              {analysis.confidenceLevel} Confidence
+            </Badge>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -283,6 +305,14 @@ export function FullWidthOptimality({ analysis, isLoading, selectedDate }: FullW
             </div>
           </div>
         </div>
+
+        {/* Score Breakdown */}
+        {explained?.analysis === analysis && (
+          <div className="mt-8 space-y-3">
+            <h3 className="text-lg font-semibold">Why {analysis.overallScore}?</h3>
+            <ScoreWaterfall explanation={explained.explanation} />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
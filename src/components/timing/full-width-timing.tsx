@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button';
 import { Calendar, Target } from 'lucide-react';
 import { TimeSlider } from './time-slider';
 import { addMonths, format } from 'date-fns';
+import { LocationData } from '@/lib/geolocation';
+import { classifySeason } from '@/lib/climate';
 
 interface FullWidthTimingProps {
   currentDate: Date;
@@ -14,6 +16,7 @@ interface FullWidthTimingProps {
   scores: Array<{ date: Date; score: number }>;
   range?: number;
   isLoading?: boolean;
+  location?: LocationData;
 }
 
 export function FullWidthTiming({ 
@@ -22,7 +25,8 @@ export function FullWidthTiming({
   onDateChange, 
   scores,
   range = 24,
-  isLoading = false
+  isLoading = false,
+  location
 }: FullWidthTimingProps) {
   
   const getScoreForDate = (date: Date) => {
@@ -48,6 +52,7 @@ export function FullWidthTiming({
   ];
 
   const currentScore = getScoreForDate(selectedDate);
+  const selectedSeason = location ? classifySeason(selectedDate, location.latitude) : undefined;
   const monthsFromToday = Math.round(
     (selectedDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24 * 30.44)
   );
@@ -120,6 +125,11 @@ export function FullWidthTiming({
             <div className="text-2xl font-bold text-primary">
               {format(selectedDate, 'MMMM yyyy')}
             </div>
+            {selectedSeason && (
+              <div className="text-sm text-muted-foreground">
+                {selectedSeason.label} in the {selectedSeason.hemisphere} hemisphere
+              </div>
+            )}
           </div>
 
           <div className="min-h-[28px] flex justify-center items-center">
@@ -140,6 +150,7 @@ export function FullWidthTiming({
             onDateChange={onDateChange}
             scores={scores}
             range={range}
+            location={location}
           />
         </div>
 
@@ -180,6 +191,7 @@ export function FullWidthTiming({
                   </div>
                   <div className="text-sm text-green-600">
                     Score: {optimal.score}/100
+                    {location && ` • ${classifySeason(optimal.date, location.latitude).label}`}
                   </div>
                   <div className="text-xs text-green-500 mt-1">
                     #{index + 1} Best Option
@@ -4,12 +4,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { format } from 'date-fns';
-import { TrendingUp, TrendingDown } from 'lucide-react';
+import { TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react';
 import { OptimalTimingResult } from '@/lib/optimal-timing';
+import { formatProjectionBasis, getProjectionFallbackNotice } from '@/lib/life-expectancy';
 
 interface LifeExpectancyVisualizationProps {
   analysis: OptimalTimingResult;
-  monthlyData: Array<{ date: Date; score: number }>;
+  monthlyData: Array<{ date: Date; score: number; lifeExpectancyDelta: number; baselineLifeExpectancy?: number }>;
 }
 
 interface ChartDataPoint {
@@ -28,21 +29,16 @@ export function LifeExpectancyVisualization({
   const chartData: ChartDataPoint[] = monthlyData.map(item => ({
     month: format(item.date, 'MMM yy'),
     score: item.score,
-    lifespanImpact: calculateLifespanImpactForScore(item.score),
+    lifespanImpact: Math.round(((item.baselineLifeExpectancy ?? analysis.baselineLifeExpectancy) + item.lifeExpectancyDelta) * 10) / 10,
     date: item.date
   }));
 
-  function calculateLifespanImpactForScore(score: number): number {
-    // Simplified calculation - in reality would use the full analysis
-    const baseline = 78; // Average lifespan
-    const impact = (score - 50) * 0.1; // 0.1 years per 10 points
-    return Math.round((baseline + impact) * 10) / 10;
-  }
-
   const currentData = chartData.find(d => 
     d.date.getTime() === analysis.birthDate.getTime()
   );
 
+  const fallbackNotice = getProjectionFallbackNotice(analysis.lifeExpectancyProjection, analysis.location);
+
   const bestScore = Math.max(...chartData.map(d => d.score));
   const worstScore = Math.min(...chartData.map(d => d.score));
   
@@ -56,7 +52,7 @@ export function LifeExpectancyVisualization({
             Optimality: {data.score}/100
           </p>
           <p className="text-sm text-muted-foreground">
-            Est. Lifespan: {data.lifespanImpact} years
+            Est. Lifespan: {data.lifespanImpact} years{fallbackNotice && ' (world average)'}
           </p>
         </div>
       );
@@ -82,6 +78,13 @@ export function LifeExpectancyVisualization({
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
+        {fallbackNotice && (
+          <div className="flex items-center gap-2 text-xs text-yellow-700">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {fallbackNotice}
+          </div>
+        )}
+
         {/* Chart */}
         <div className="h-64">
           <ResponsiveContainer width="100%" height="100%">
@@ -153,6 +156,19 @@ export function LifeExpectancyVisualization({
           </div>
         </div>
 
+        {/* Absolute Projection */}
+        <div className="p-3 bg-muted/50 rounded-lg">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium">Projected Lifespan{fallbackNotice && ' (world average)'}</span>
+            <span className="text-sm font-bold">
+              {(analysis.baselineLifeExpectancy + analysis.lifeExpectancyDelta).toFixed(1)} years
+            </span>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {analysis.baselineLifeExpectancy} year baseline: {formatProjectionBasis(analysis.lifeExpectancyProjection)}
+          </div>
+        </div>
+
         {/* Solar Cycle Context */}
         <div className="p-3 bg-muted/50 rounded-lg">
           <div className="flex items-center justify-between mb-2">
@@ -1,13 +1,19 @@
 'use client';
 
+import { useState } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { MapPin, RefreshCw, AlertCircle } from 'lucide-react';
+import { MapPin, RefreshCw, AlertCircle, Search, Star } from 'lucide-react';
 import { LocationData } from '@/lib/geolocation';
+import { getHemisphere, getClimateZone } from '@/lib/climate';
+import { isSavedLocation } from '@/lib/location-history';
+import { useLocationHistory } from '@/hooks/use-location-history';
+import { LocationPicker } from './location-picker';
 
 interface LocationBannerProps {
   location?: LocationData;
   onLocationRefresh: () => void;
+  onLocationSelect: (location: LocationData) => void;
   isLoading?: boolean;
   error?: string;
 }
@@ -15,21 +21,25 @@ interface LocationBannerProps {
 export function LocationBanner({ 
   location, 
   onLocationRefresh, 
+  onLocationSelect,
   isLoading = false,
   error 
 }: LocationBannerProps) {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const { history, toggleSaved } = useLocationHistory();
+
   const formatLatLng = (value: number, isLat: boolean) => {
     const direction = isLat ? (value >= 0 ? 'N' : 'S') : (value >= 0 ? 'E' : 'W');
     return `${Math.abs(value).toFixed(2)}°${direction}`;
   };
 
   const getLatitudeDescription = (latitude: number) => {
-    const abs = Math.abs(latitude);
-    if (abs > 66.5) return 'Arctic/Antarctic';
-    if (abs > 50) return 'High latitude';
-    if (abs > 30) return 'Mid latitude';
-    if (abs > 10) return 'Subtropical';
-    return 'Tropical';
+    switch (getClimateZone(latitude)) {
+      case 'polar': return 'Arctic/Antarctic';
+      case 'temperate': return Math.abs(latitude) > 50 ? 'High latitude' : 'Mid latitude';
+      case 'subtropical': return 'Subtropical';
+      default: return 'Tropical';
+    }
   };
 
   return (
@@ -44,15 +54,24 @@ export function LocationBanner({
                 <div className="text-sm text-muted-foreground">{error}</div>
               </div>
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={onLocationRefresh}
-              disabled={isLoading}
-            >
-              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-              Retry
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onLocationRefresh}
+                disabled={isLoading}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Retry
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => setPickerOpen(true)}
+              >
+                <Search className="h-4 w-4 mr-2" />
+                Enter Location
+              </Button>
+            </div>
           </div>
         ) : location ? (
           <div className="flex items-center justify-between">
@@ -72,7 +91,7 @@ export function LocationBanner({
                   {getLatitudeDescription(location.latitude)}
                 </Badge>
                 <Badge variant="outline" className="text-xs">
-                  {location.latitude >= 0 ? 'Northern' : 'Southern'} Hemisphere
+                  {getHemisphere(location.latitude) === 'northern' ? 'Northern' : 'Southern'} Hemisphere
                 </Badge>
                 {location.timezone && (
                   <Badge variant="outline" className="text-xs">
@@ -82,16 +101,37 @@ export function LocationBanner({
               </div>
             </div>
             
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={onLocationRefresh}
-              disabled={isLoading}
-              className="text-xs"
-            >
-              <RefreshCw className={`h-3 w-3 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
-              Update
-            </Button>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => toggleSaved(location)}
+                className="text-xs"
+                aria-label={isSavedLocation(history, location) ? 'Remove from saved places' : 'Save this place'}
+              >
+                <Star className={`h-3 w-3 mr-1 ${isSavedLocation(history, location) ? 'fill-current text-yellow-500' : ''}`} />
+                {isSavedLocation(history, location) ? 'Saved' : 'Save'}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPickerOpen(true)}
+                className="text-xs"
+              >
+                <Search className="h-3 w-3 mr-1" />
+                Change
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onLocationRefresh}
+                disabled={isLoading}
+                className="text-xs"
+              >
+                <RefreshCw className={`h-3 w-3 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+                Update
+              </Button>
+            </div>
           </div>
         ) : (
           <div className="flex items-center justify-between">
@@ -100,22 +140,39 @@ export function LocationBanner({
               <div>
                 <div className="font-medium">Location Required</div>
                 <div className="text-sm text-muted-foreground">
-                  {isLoading ? 'Getting your location...' : 'Click to enable location-based analysis'}
+                  {isLoading ? 'Getting your location...' : 'Use your current location or enter one manually'}
                 </div>
               </div>
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={onLocationRefresh}
-              disabled={isLoading}
-            >
-              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-              {isLoading ? 'Getting Location...' : 'Get Location'}
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onLocationRefresh}
+                disabled={isLoading}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                {isLoading ? 'Getting Location...' : 'Get Location'}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPickerOpen(true)}
+              >
+                <Search className="h-4 w-4 mr-2" />
+                Enter Location
+              </Button>
+            </div>
           </div>
         )}
       </div>
+
+      <LocationPicker
+        open={pickerOpen}
+        onOpenChange={setPickerOpen}
+        onLocationSelect={onLocationSelect}
+        onUseCurrentLocation={onLocationRefresh}
+      />
     </div>
   );
 }
\ No newline at end of file
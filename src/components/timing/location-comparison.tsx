@@ -0,0 +1,355 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Download, MapPin, Plus, Trophy, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { getLocationKey, getLocationLabel, isSameLocation, LocationData } from '@/lib/geolocation';
+import { geocodeAddress, suggestLocations, toLocationData } from '@/lib/geocoding';
+import { ScoringProfile } from '@/lib/scoring-profiles';
+import {
+  buildComparisonExport,
+  compareLocations,
+  LocationComparisonEntry,
+  MAX_COMPARISON_LOCATIONS,
+  MIN_COMPARISON_LOCATIONS
+} from '@/lib/location-comparison';
+import { useTimingWorker } from '@/hooks/use-timing-worker';
+
+interface LocationComparisonProps {
+  onClose: () => void;
+  centerDate: Date;
+  initialLocation?: LocationData;
+  profile?: ScoringProfile;
+}
+
+const LINE_COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#8b5cf6', '#ef4444'];
+
+export function LocationComparison({ onClose, centerDate, initialLocation, profile }: LocationComparisonProps) {
+  const [locations, setLocations] = useState<LocationData[]>(initialLocation ? [initialLocation] : []);
+  const [entries, setEntries] = useState<LocationComparisonEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const suggestionQueryRef = useRef('');
+  const [geocoding, setGeocoding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { analyzeRange } = useTimingWorker();
+
+  useEffect(() => {
+    if (locations.length < MIN_COMPARISON_LOCATIONS) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    compareLocations(locations, centerDate, 12, { profile, analyzeRange })
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch(err => {
+        console.error('Location comparison failed:', err);
+        if (!cancelled) setError('Failed to analyze the selected locations');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [locations, centerDate, profile, analyzeRange]);
+
+  const handleAddLocation = async (address: string = query) => {
+    if (!address.trim()) return;
+    setError(null);
+    suggestionQueryRef.current = '';
+    setSuggestions([]);
+
+    if (locations.length >= MAX_COMPARISON_LOCATIONS) {
+      setError(`You can compare up to ${MAX_COMPARISON_LOCATIONS} locations`);
+      return;
+    }
+
+    setGeocoding(true);
+    try {
+      const location = await toLocationData(await geocodeAddress(address));
+
+      if (locations.some(existing => isSameLocation(existing, location))) {
+        setError(`${getLocationLabel(location)} is already in the comparison`);
+        return;
+      }
+
+      setLocations(prev => [...prev, location]);
+      setQuery('');
+    } catch (err) {
+      const message = err && typeof err === 'object' && 'message' in err ? (err as { message: string }).message : undefined;
+      setError(message ?? 'Could not find that location. Please check the spelling and try again.');
+    } finally {
+      setGeocoding(false);
+    }
+  };
+
+  const handleQueryChange = async (value: string) => {
+    setQuery(value);
+    suggestionQueryRef.current = value;
+    const matches = await suggestLocations(value);
+    if (suggestionQueryRef.current === value) setSuggestions(matches);
+  };
+
+  const handleRemoveLocation = (key: string) => {
+    setLocations(prev => prev.filter(location => getLocationKey(location) !== key));
+  };
+
+  const handleExport = () => {
+    if (entries.length === 0) return;
+
+    const blob = new Blob([JSON.stringify(buildComparisonExport(entries, centerDate), null, 2)], {
+      type: 'application/json'
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `location-comparison-${format(centerDate, 'yyyy-MM')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // One row per month with a score column per location; all series share the same dates
+  const chartData = entries[0]?.analysis.series.map((result, index) => {
+    const row: Record<string, string | number> = { month: format(result.birthDate, 'MMM yy') };
+    entries.forEach((entry, entryIndex) => {
+      row[`location${entryIndex}`] = entry.analysis.series[index]?.overallScore ?? 0;
+    });
+    return row;
+  }) ?? [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">
+                Compare Locations
+              </h1>
+              <p className="text-muted-foreground">
+                Birth timing scores for up to {MAX_COMPARISON_LOCATIONS} locations around {format(centerDate, 'MMMM yyyy')}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleExport} variant="outline" disabled={entries.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Export Comparison
+              </Button>
+              <Button onClick={onClose} variant="outline">
+                Back to Calculator
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6 space-y-8">
+        {/* Location Picker */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Locations ({locations.length}/{MAX_COMPARISON_LOCATIONS})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {locations.map((location, index) => (
+                <Badge key={getLocationKey(location)} variant="outline" className="text-sm gap-2 py-1">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: LINE_COLORS[index] }} />
+                  {getLocationLabel(location)}
+                  <button
+                    type="button"
+                    aria-label={`Remove ${getLocationLabel(location)}`}
+                    onClick={() => handleRemoveLocation(getLocationKey(location))}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+
+            <div className="flex gap-2 relative">
+              <Input
+                value={query}
+                onChange={(e) => handleQueryChange(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAddLocation();
+                }}
+                placeholder="e.g., London, UK or Sydney, Australia"
+                disabled={geocoding || locations.length >= MAX_COMPARISON_LOCATIONS}
+              />
+              <Button
+                onClick={() => handleAddLocation()}
+                disabled={geocoding || !query.trim() || locations.length >= MAX_COMPARISON_LOCATIONS}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {geocoding ? 'Looking up...' : 'Add'}
+              </Button>
+
+              {suggestions.length > 0 && (
+                <div className="absolute top-full z-10 w-full mt-1 bg-background border border-border rounded-md shadow-lg max-h-40 overflow-y-auto">
+                  {suggestions.map((suggestion, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-muted transition-colors"
+                      onClick={() => handleAddLocation(suggestion)}
+                    >
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {locations.length < MIN_COMPARISON_LOCATIONS && (
+              <p className="text-sm text-muted-foreground">
+                Add at least {MIN_COMPARISON_LOCATIONS} locations to compare.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {loading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <div className="w-4 h-4 animate-spin rounded-full border-2 border-primary border-t-transparent"></div>
+            Analyzing locations...
+          </div>
+        )}
+
+        {entries.length >= MIN_COMPARISON_LOCATIONS && (
+          <>
+            {/* Overlaid Monthly Scores */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Monthly Optimality Scores</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                      <XAxis
+                        dataKey="month"
+                        minTickGap={24}
+                        fontSize={12}
+                        tick={{ fill: 'hsl(var(--muted-foreground))' }}
+                      />
+                      <YAxis
+                        domain={[0, 100]}
+                        fontSize={12}
+                        tick={{ fill: 'hsl(var(--muted-foreground))' }}
+                      />
+                      <Tooltip />
+                      <Legend />
+                      {entries.map((entry, index) => (
+                        <Line
+                          key={getLocationKey(entry.location)}
+                          type="monotone"
+                          dataKey={`location${index}`}
+                          name={getLocationLabel(entry.location)}
+                          stroke={LINE_COLORS[index]}
+                          strokeWidth={2}
+                          dot={false}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Best Month per Location */}
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {entries.map((entry, index) => (
+                <Card key={getLocationKey(entry.location)}>
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex items-center gap-2 font-medium">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: LINE_COLORS[index] }} />
+                      {getLocationLabel(entry.location)}
+                    </div>
+                    <div className="flex items-center gap-2 text-sm">
+                      <Trophy className="h-4 w-4 text-yellow-500" />
+                      Best month: {format(entry.bestMonth.birthDate, 'MMMM yyyy')}
+                      <Badge variant="outline">{entry.bestMonth.overallScore}/100</Badge>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      Selected date: {entry.analysis.currentTiming.overallScore}/100
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {/* Side-by-side Risk Factors */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Risk Factors on {format(centerDate, 'MMMM d, yyyy')}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                  {entries.map(entry => (
+                    <div key={getLocationKey(entry.location)} className="space-y-2">
+                      <div className="font-medium">{getLocationLabel(entry.location)}</div>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-xs text-muted-foreground text-left">
+                            <th className="font-normal pb-1">Factor</th>
+                            <th className="font-normal pb-1 text-right">Impact</th>
+                            <th className="font-normal pb-1 text-right">Severity</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {entry.analysis.currentTiming.riskFactors.map(factor => (
+                            <tr key={factor.name} className="border-t">
+                              <td className="py-1">{factor.name}</td>
+                              <td className={`py-1 text-right ${factor.impact > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {factor.impact > 0 ? '+' : ''}{factor.impact}
+                              </td>
+                              <td className="py-1 text-right">
+                                <Badge
+                                  variant={factor.severity === 'HIGH' ? 'destructive' :
+                                         factor.severity === 'MEDIUM' ? 'secondary' : 'outline'}
+                                  className="text-xs"
+                                >
+                                  {factor.severity}
+                                </Badge>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { MapPin, RefreshCw, AlertCircle } from 'lucide-react';
 import { LocationData } from '@/lib/geolocation';
+import { getHemisphere } from '@/lib/climate';
 
 interface LocationDisplayProps {
   location?: LocationData;
@@ -110,7 +111,7 @@ export function LocationDisplay({
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Hemisphere:</span>
                 <span className="font-medium">
-                  {location.latitude >= 0 ? 'Northern' : 'Southern'}
+                  {getHemisphere(location.latitude) === 'northern' ? 'Northern' : 'Southern'}
                 </span>
               </div>
             </div>
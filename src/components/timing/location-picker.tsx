@@ -0,0 +1,270 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Clock, Crosshair, MapPin, Search, Star, StarOff } from 'lucide-react';
+import {
+  getLocationFromCoordinates,
+  getLocationKey,
+  getLocationLabel,
+  LocationData,
+  parseCoordinates
+} from '@/lib/geolocation';
+import { geocodeAddress, suggestLocations, toLocationData } from '@/lib/geocoding';
+import { isSavedLocation } from '@/lib/location-history';
+import { useLocationHistory } from '@/hooks/use-location-history';
+
+interface LocationPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLocationSelect: (location: LocationData) => void;
+  onUseCurrentLocation: () => void;
+}
+
+interface PlaceListProps {
+  title: string;
+  places: LocationData[];
+  onSelect: (location: LocationData) => void;
+  isSaved: (location: LocationData) => boolean;
+  onToggleSaved: (location: LocationData) => void;
+}
+
+function PlaceList({ title, places, onSelect, isSaved, onToggleSaved }: PlaceListProps) {
+  if (places.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{title}</div>
+      {places.map(place => (
+        <div key={getLocationKey(place)} className="flex items-center gap-2">
+          <button
+            type="button"
+            className="flex-1 text-left px-2 py-1.5 text-sm rounded hover:bg-muted transition-colors"
+            onClick={() => onSelect(place)}
+          >
+            {getLocationLabel(place)}
+            <span className="text-xs text-muted-foreground ml-2">
+              {place.latitude.toFixed(2)}, {place.longitude.toFixed(2)}
+            </span>
+          </button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => onToggleSaved(place)}
+            aria-label={isSaved(place) ? `Remove ${getLocationLabel(place)} from saved places` : `Save ${getLocationLabel(place)}`}
+          >
+            {isSaved(place)
+              ? <StarOff className="h-4 w-4 text-muted-foreground" />
+              : <Star className="h-4 w-4 text-muted-foreground" />}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Manual location entry for when geolocation is denied or the analysis should use another place
+export function LocationPicker({ open, onOpenChange, onLocationSelect, onUseCurrentLocation }: LocationPickerProps) {
+  const { history, toggleSaved, clearRecent } = useLocationHistory();
+  const [address, setAddress] = useState('');
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  // Input the pending suggestions belong to; answers for older input are dropped
+  const suggestionQueryRef = useRef('');
+  const [coordinates, setCoordinates] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectLocation = (location: LocationData) => {
+    onLocationSelect(location);
+    onOpenChange(false);
+    setAddress('');
+    setCoordinates('');
+    suggestionQueryRef.current = '';
+    setSuggestions([]);
+    setError(null);
+  };
+
+  const handleAddressSearch = async (value: string = address) => {
+    if (!value.trim()) return;
+    setError(null);
+    suggestionQueryRef.current = '';
+    setSuggestions([]);
+    setSearching(true);
+
+    try {
+      selectLocation(await toLocationData(await geocodeAddress(value)));
+    } catch (err) {
+      const message = err && typeof err === 'object' && 'message' in err ? (err as { message: string }).message : undefined;
+      setError(message ?? 'Could not find that location. Please check the spelling and try again.');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleCoordinateSubmit = async () => {
+    const parsed = parseCoordinates(coordinates);
+    if (!parsed) {
+      setError('Enter latitude and longitude in decimal degrees, e.g. 40.71, -74.01');
+      return;
+    }
+
+    setError(null);
+    setSearching(true);
+    try {
+      selectLocation(await getLocationFromCoordinates(parsed.latitude, parsed.longitude));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleAddressChange = async (value: string) => {
+    setAddress(value);
+    suggestionQueryRef.current = value;
+    const matches = await suggestLocations(value);
+    if (suggestionQueryRef.current === value) setSuggestions(matches);
+  };
+
+  const handleUseCurrentLocation = () => {
+    onUseCurrentLocation();
+    onOpenChange(false);
+  };
+
+  const isSaved = (location: LocationData) => isSavedLocation(history, location);
+  const hasPlaces = history.saved.length > 0 || history.recent.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Choose Location</DialogTitle>
+          <DialogDescription>
+            Search for a place, enter coordinates, or pick a recent or saved location.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue={hasPlaces ? 'places' : 'search'} onValueChange={() => setError(null)}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="search">
+              <Search className="h-4 w-4 mr-1" />
+              Search
+            </TabsTrigger>
+            <TabsTrigger value="coordinates">
+              <MapPin className="h-4 w-4 mr-1" />
+              Coordinates
+            </TabsTrigger>
+            <TabsTrigger value="places">
+              <Clock className="h-4 w-4 mr-1" />
+              Places
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="search" className="space-y-2 pt-2">
+            <Label htmlFor="location-search">City or address</Label>
+            <div className="flex gap-2 relative">
+              <Input
+                id="location-search"
+                value={address}
+                onChange={(e) => handleAddressChange(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAddressSearch();
+                }}
+                placeholder="e.g., London, UK or Sydney, Australia"
+                disabled={searching}
+              />
+              <Button onClick={() => handleAddressSearch()} disabled={searching || !address.trim()}>
+                {searching ? 'Searching...' : 'Search'}
+              </Button>
+
+              {suggestions.length > 0 && (
+                <div className="absolute top-full z-10 w-full mt-1 bg-background border border-border rounded-md shadow-lg max-h-40 overflow-y-auto">
+                  {suggestions.map((suggestion, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-muted transition-colors"
+                      onClick={() => handleAddressSearch(suggestion)}
+                    >
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="coordinates" className="space-y-2 pt-2">
+            <Label htmlFor="location-coordinates">Latitude, longitude</Label>
+            <div className="flex gap-2">
+              <Input
+                id="location-coordinates"
+                value={coordinates}
+                onChange={(e) => setCoordinates(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleCoordinateSubmit();
+                }}
+                placeholder="e.g., 51.51, -0.13 or 33.87 S 151.21 E"
+                disabled={searching}
+              />
+              <Button onClick={handleCoordinateSubmit} disabled={searching || !coordinates.trim()}>
+                {searching ? 'Looking up...' : 'Use'}
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="places" className="space-y-4 pt-2">
+            {hasPlaces ? (
+              <>
+                <PlaceList
+                  title="Saved"
+                  places={history.saved}
+                  onSelect={selectLocation}
+                  isSaved={isSaved}
+                  onToggleSaved={toggleSaved}
+                />
+                <PlaceList
+                  title="Recent"
+                  places={history.recent}
+                  onSelect={selectLocation}
+                  isSaved={isSaved}
+                  onToggleSaved={toggleSaved}
+                />
+                {history.recent.length > 0 && (
+                  <Button variant="ghost" size="sm" className="text-xs" onClick={clearRecent}>
+                    Clear recent
+                  </Button>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Locations you use will appear here. Star a place to keep it.
+              </p>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button variant="outline" onClick={handleUseCurrentLocation}>
+          <Crosshair className="h-4 w-4 mr-2" />
+          Use my location
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
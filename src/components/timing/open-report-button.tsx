@@ -0,0 +1,48 @@
+'use client';
+
+import { useRef } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { FolderOpen } from 'lucide-react';
+import { OpenedReport, openSavedReport } from '@/lib/report-schema';
+
+interface OpenReportButtonProps {
+  onOpen: (report: OpenedReport) => void;
+}
+
+// Loads a report file saved with "Export Report > JSON Data"
+export function OpenReportButton({ onOpen }: OpenReportButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still fires a change
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onOpen(openSavedReport(await file.text()));
+    } catch (error) {
+      console.error('Open report failed:', error);
+      toast.error('Could not open report', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button onClick={() => inputRef.current?.click()} variant="outline">
+        <FolderOpen className="h-4 w-4 mr-2" />
+        Open Report
+      </Button>
+    </>
+  );
+}
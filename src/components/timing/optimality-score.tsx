@@ -1,5 +1,6 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
@@ -12,6 +13,8 @@ import {
   Clock
 } from 'lucide-react';
 import { OptimalTimingResult } from '@/lib/optimal-timing';
+import { explainScore, ScoreExplanation } from '@/lib/score-explanation';
+import { ScoreWaterfall } from './score-waterfall';
 
 interface OptimalityScoreProps {
   analysis?: OptimalTimingResult;
@@ -19,6 +22,20 @@ interface OptimalityScoreProps {
 }
 
 export function OptimalityScore({ analysis, isLoading }: OptimalityScoreProps) {
+  // Kept with the analysis it explains, so a stale breakdown never shows against a new score
+  const [explained, setExplained] = useState<{ analysis: OptimalTimingResult; explanation: ScoreExplanation }>();
+
+  useEffect(() => {
+    if (!analysis) return;
+    let cancelled = false;
+    explainScore(analysis).then(explanation => {
+      if (!cancelled) setExplained({ analysis, explanation });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [analysis]);
+
   if (isLoading) {
     return (
       <Card>
@@ -188,6 +205,14 @@ export function OptimalityScore({ analysis, isLoading }: OptimalityScoreProps) {
           </div>
         </div>
 
+        {/* Score Breakdown */}
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-muted-foreground">
+            Why {analysis.overallScore}?
+          </h4>
+          {explained?.analysis === analysis && <ScoreWaterfall explanation={explained.explanation} />}
+        </div>
+
         {/* Risk Factor Summary */}
         {analysis.riskFactors.length > 0 && (
           <div className="space-y-3">
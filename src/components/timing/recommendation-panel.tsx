@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -17,84 +18,56 @@ import {
   TrendingUp,
   Activity,
   Brain,
-  Baby
+  Baby,
+  Leaf,
+  LucideIcon
 } from 'lucide-react';
-import { OptimalTimingResult } from '@/lib/optimal-timing';
+import { getAnalysisCitations, OptimalTimingResult } from '@/lib/optimal-timing';
+import { RecommendationTab } from '@/lib/url-state';
+import {
+  formatRecommendation,
+  Recommendation,
+  RecommendationCategory,
+  RecommendationId
+} from '@/lib/recommendations';
 
 interface RecommendationPanelProps {
-  recommendations: string[];
+  recommendations: Recommendation[];
   analysis: OptimalTimingResult;
+  messages?: Partial<Record<RecommendationId, string>>; // Translated templates keyed by recommendation id
+  locale?: string;                                      // For numbers and month names in the messages
+  category?: RecommendationTab;                         // Controlled filter, e.g. restored from a shared link
+  onCategoryChange?: (category: RecommendationTab) => void;
 }
 
-interface ScientificReference {
-  title: string;
-  authors: string;
-  journal: string;
-  year: number;
-  url?: string;
-}
+const CATEGORY_DETAILS: Record<RecommendationCategory, { label: string; icon: LucideIcon; className: string }> = {
+  timing: { label: 'Timing', icon: Clock, className: 'text-yellow-500' },
+  nutrition: { label: 'Nutrition', icon: Heart, className: 'text-red-500' },
+  infection: { label: 'Infection', icon: Shield, className: 'text-orange-500' },
+  education: { label: 'Education', icon: BookOpen, className: 'text-purple-500' },
+  environment: { label: 'Environment', icon: Leaf, className: 'text-green-600' },
+  'mental-health': { label: 'Mental Health', icon: Brain, className: 'text-indigo-500' },
+  cardiovascular: { label: 'Cardiovascular', icon: Activity, className: 'text-pink-500' },
+  general: { label: 'General', icon: Info, className: 'text-gray-500' }
+};
 
-const SCIENTIFIC_REFERENCES: ScientificReference[] = [
-  {
-    title: "Solar Activity and Human Longevity",
-    authors: "Lowell, J. & Davis, R.",
-    journal: "Solar Physics",
-    year: 2008
-  },
-  {
-    title: "Season of Birth and Disease Risk",
-    authors: "Disanto, G. et al.",
-    journal: "PLoS ONE",
-    year: 2012
-  },
-  {
-    title: "Vitamin D Deficiency and Birth Timing",
-    authors: "Haggarty, P. et al.",
-    journal: "British Journal of Nutrition", 
-    year: 2004
-  },
-  {
-    title: "Relative Age Effects in Education",
-    authors: "Bedard, K. & Dhuey, E.",
-    journal: "Quarterly Journal of Economics",
-    year: 2006
-  }
-];
+const CATEGORY_ORDER = Object.keys(CATEGORY_DETAILS) as RecommendationCategory[];
 
 export function RecommendationPanel({ 
   recommendations, 
-  analysis 
+  analysis,
+  messages,
+  locale,
+  category,
+  onCategoryChange
 }: RecommendationPanelProps) {
-  
-  const getRecommendationIcon = (recommendation: string) => {
-    if (recommendation.includes('⚠️ CRITICAL')) {
-      return <AlertTriangle className="h-4 w-4 text-red-500" />;
-    }
-    if (recommendation.includes('vitamin') || recommendation.includes('supplement')) {
-      return <Heart className="h-4 w-4 text-red-500" />;
-    }
-    if (recommendation.includes('delay') || recommendation.includes('consider')) {
-      return <Clock className="h-4 w-4 text-yellow-500" />;
-    }
-    if (recommendation.includes('monitor') || recommendation.includes('precaution')) {
-      return <Shield className="h-4 w-4 text-blue-500" />;
-    }
-    if (recommendation.includes('school') || recommendation.includes('education')) {
-      return <BookOpen className="h-4 w-4 text-purple-500" />;
-    }
-    if (recommendation.includes('cardiovascular') || recommendation.includes('heart')) {
-      return <Activity className="h-4 w-4 text-pink-500" />;
-    }
-    if (recommendation.includes('mental') || recommendation.includes('cognitive')) {
-      return <Brain className="h-4 w-4 text-indigo-500" />;
-    }
-    if (recommendation.includes('infection') || recommendation.includes('immune')) {
-      return <Shield className="h-4 w-4 text-orange-500" />;
-    }
-    if (recommendation.includes('Excellent') || recommendation.includes('Optimal')) {
-      return <CheckCircle className="h-4 w-4 text-green-500" />;
-    }
-    return <Info className="h-4 w-4 text-gray-500" />;
+  const [localCategoryFilter, setLocalCategoryFilter] = useState<RecommendationTab>('all');
+  const categoryFilter = category ?? localCategoryFilter;
+  const setCategoryFilter = onCategoryChange ?? setLocalCategoryFilter;
+
+  const getRecommendationIcon = (recommendation: Recommendation) => {
+    const { icon: Icon, className } = CATEGORY_DETAILS[recommendation.category];
+    return <Icon className={`h-4 w-4 ${className}`} />;
   };
 
   const getOverallRecommendation = () => {
@@ -124,8 +97,15 @@ export function RecommendationPanel({
   };
 
   const overallRec = getOverallRecommendation();
-  const criticalRecommendations = recommendations.filter(r => r.includes('⚠️ CRITICAL'));
-  const normalRecommendations = recommendations.filter(r => !r.includes('⚠️ CRITICAL'));
+  const citations = getAnalysisCitations(analysis);
+  const criticalRecommendations = recommendations.filter(r => r.priority === 'critical');
+  const normalRecommendations = recommendations.filter(r => r.priority !== 'critical');
+  const availableCategories = CATEGORY_ORDER.filter(category =>
+    normalRecommendations.some(r => r.category === category)
+  );
+  const visibleCategories = categoryFilter === 'all' || !availableCategories.includes(categoryFilter)
+    ? availableCategories
+    : [categoryFilter];
 
   return (
     <div className="space-y-8">
@@ -153,9 +133,9 @@ export function RecommendationPanel({
           <div className="space-y-3">
             <div className="font-semibold text-lg text-destructive">Critical Considerations</div>
             <div className="space-y-3">
-              {criticalRecommendations.map((rec, index) => (
-                <AlertDescription key={index} className="text-base text-destructive leading-relaxed">
-                  • {rec.replace('⚠️ CRITICAL: ', '')}
+              {criticalRecommendations.map((rec) => (
+                <AlertDescription key={rec.id} className="text-base text-destructive leading-relaxed">
+                  • {formatRecommendation(rec, messages, locale)}
                 </AlertDescription>
               ))}
             </div>
@@ -172,14 +152,51 @@ export function RecommendationPanel({
               Personalized Recommendations
             </CardTitle>
           </CardHeader>
-          <CardContent className="space-y-4">
-            {normalRecommendations.map((rec, index) => (
-              <div 
-                key={index} 
-                className="flex items-start gap-4 p-4 rounded-lg bg-muted/20 border border-muted hover:bg-muted/30 transition-colors"
-              >
-                <div className="mt-1">{getRecommendationIcon(rec)}</div>
-                <p className="text-base flex-1 leading-relaxed">{rec}</p>
+          <CardContent className="space-y-6">
+            {availableCategories.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant={categoryFilter === 'all' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setCategoryFilter('all')}
+                >
+                  All ({normalRecommendations.length})
+                </Button>
+                {availableCategories.map(category => (
+                  <Button
+                    key={category}
+                    variant={categoryFilter === category ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setCategoryFilter(category)}
+                  >
+                    {CATEGORY_DETAILS[category].label} ({normalRecommendations.filter(r => r.category === category).length})
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {visibleCategories.map(category => (
+              <div key={category} className="space-y-3">
+                <div className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+                  {CATEGORY_DETAILS[category].label}
+                </div>
+                {normalRecommendations.filter(r => r.category === category).map((rec) => (
+                  <div 
+                    key={rec.id} 
+                    className="flex items-start gap-4 p-4 rounded-lg bg-muted/20 border border-muted hover:bg-muted/30 transition-colors"
+                  >
+                    <div className="mt-1">{getRecommendationIcon(rec)}</div>
+                    <div className="flex-1 space-y-1">
+                      <p className="text-base leading-relaxed">{formatRecommendation(rec, messages, locale)}</p>
+                      {rec.riskFactor && (
+                        <p className="text-sm text-muted-foreground">Related factor: {rec.riskFactor.name}</p>
+                      )}
+                    </div>
+                    {rec.priority === 'high' && (
+                      <Badge variant="secondary" className="text-xs flex-shrink-0">High priority</Badge>
+                    )}
+                  </div>
+                ))}
               </div>
             ))}
             
@@ -293,9 +310,9 @@ export function RecommendationPanel({
         </CardHeader>
         <CardContent>
           <div className="grid gap-4">
-            {SCIENTIFIC_REFERENCES.map((ref, index) => (
+            {citations.map((ref) => (
               <div 
-                key={index} 
+                key={ref.id} 
                 className="p-4 bg-muted/20 rounded-lg border hover:bg-muted/30 transition-colors"
               >
                 <div className="flex items-start justify-between gap-3">
@@ -5,7 +5,10 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { Sun, Snowflake } from 'lucide-react';
-import { RiskFactor } from '@/lib/optimal-timing';
+import { CategoryScores, RiskFactor } from '@/lib/optimal-timing';
+import { SCORE_CATEGORIES, ScoreCategory } from '@/lib/scoring-profiles';
+import { ScoreExplanation } from '@/lib/score-explanation';
+import { ScoreWaterfall } from './score-waterfall';
 
 interface RiskBreakdownChartProps {
   riskFactors: RiskFactor[];
@@ -21,6 +24,9 @@ interface RiskBreakdownChartProps {
     relativeAgeAdvantage: number;
     overallSeasonalScore: number;
   };
+  categoryScores: CategoryScores;
+  categoryWeights: Record<ScoreCategory, number>;
+  explanation?: ScoreExplanation; // From explainScore; adds the score waterfall when given
 }
 
 const COLORS = {
@@ -30,6 +36,13 @@ const COLORS = {
   environmental: '#8b5cf6'
 };
 
+const CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  solar: 'Solar',
+  seasonal: 'Seasonal',
+  geographic: 'Geographic',
+  environmental: 'Environmental'
+};
+
 const RISK_COLORS = {
   LOW: '#10b981',
   MEDIUM: '#f59e0b', 
@@ -39,7 +52,10 @@ const RISK_COLORS = {
 export function RiskBreakdownChart({ 
   riskFactors, 
   solarData, 
-  seasonalData 
+  seasonalData,
+  categoryScores,
+  categoryWeights,
+  explanation
 }: RiskBreakdownChartProps) {
   
   // Prepare data for risk factor chart
@@ -52,13 +68,14 @@ export function RiskBreakdownChart({
   }));
 
   // Prepare data for category breakdown
-  const categoryData = [
-    { name: 'Solar', value: 40, color: COLORS.solar, score: 100 - Math.abs(solarData.lifespanImpact) * 15 },
-    { name: 'Seasonal', value: 35, color: COLORS.seasonal, score: seasonalData.overallSeasonalScore },
-    { name: 'Geographic', value: 15, color: COLORS.geographic, score: 75 },
-    { name: 'Environmental', value: 10, color: COLORS.environmental, score: 75 }
-  ];
-
+  const categoryData = SCORE_CATEGORIES
+    .filter(category => categoryWeights[category] > 0)
+    .map(category => ({
+      name: CATEGORY_LABELS[category],
+      value: Math.round(categoryWeights[category] * 100),
+      color: COLORS[category],
+      score: categoryScores[category]
+    }));
   // Detailed metrics data
   const detailedMetrics = [
     {
@@ -164,6 +181,16 @@ export function RiskBreakdownChart({
           </div>
         </div>
 
+        {/* Score Waterfall */}
+        {explanation && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-muted-foreground">
+              Score Breakdown
+            </h4>
+            <ScoreWaterfall explanation={explanation} />
+          </div>
+        )}
+
         {/* Risk Factors Impact */}
         {riskFactorData.length > 0 && (
           <div className="space-y-3">
@@ -0,0 +1,126 @@
+'use client';
+
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { ScoreExplanation } from '@/lib/score-explanation';
+import { ScoreCategory } from '@/lib/scoring-profiles';
+
+interface ScoreWaterfallProps {
+  explanation: ScoreExplanation;
+  showSensitivity?: boolean;
+}
+
+interface WaterfallStep {
+  name: string;
+  base: number;   // Invisible offset so each bar floats at the running total
+  value: number;
+  label: string;
+  color: string;
+}
+
+const CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  solar: 'Solar',
+  seasonal: 'Seasonal',
+  geographic: 'Geographic',
+  environmental: 'Environmental'
+};
+
+const COLORS = {
+  solar: '#f59e0b',
+  seasonal: '#10b981',
+  geographic: '#3b82f6',
+  environmental: '#8b5cf6',
+  total: '#64748b',
+  rounding: '#94a3b8'
+};
+
+// Steps from a perfect 100 down to the score, one bar per category's weighted shortfall
+const buildSteps = (explanation: ScoreExplanation): WaterfallStep[] => {
+  const steps: WaterfallStep[] = [{ name: 'Maximum', base: 0, value: 100, label: '100', color: COLORS.total }];
+  let running = 100;
+
+  explanation.contributions
+    .filter(item => item.weight > 0)
+    .forEach(item => {
+      running -= item.shortfall;
+      steps.push({
+        name: CATEGORY_LABELS[item.category],
+        base: running,
+        value: item.shortfall,
+        label: `-${item.shortfall.toFixed(1)} (${item.subscore.toFixed(0)} × ${Math.round(item.weight * 100)}%)`,
+        color: COLORS[item.category]
+      });
+    });
+
+  if (Math.abs(explanation.rounding) >= 0.05) {
+    steps.push({
+      name: 'Rounding',
+      base: Math.min(running, explanation.overallScore),
+      value: Math.abs(explanation.rounding),
+      label: `${explanation.rounding > 0 ? '+' : ''}${explanation.rounding.toFixed(1)}`,
+      color: COLORS.rounding
+    });
+  }
+
+  steps.push({
+    name: 'Score',
+    base: 0,
+    value: explanation.overallScore,
+    label: String(explanation.overallScore),
+    color: COLORS.total
+  });
+  return steps;
+};
+
+const WaterfallTooltip = ({ active, payload }: { active?: boolean; payload?: Array<{ payload: WaterfallStep }> }) => {
+  if (!active || !payload?.length) return null;
+  const step = payload[0].payload;
+  return (
+    <div className="bg-background border rounded-lg p-2 shadow-lg text-xs">
+      <div className="font-medium">{step.name}</div>
+      <div className="text-muted-foreground">{step.label}</div>
+    </div>
+  );
+};
+
+export function ScoreWaterfall({ explanation, showSensitivity = true }: ScoreWaterfallProps) {
+  const steps = buildSteps(explanation);
+
+  return (
+    <div className="space-y-4">
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={steps}>
+            <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+            <XAxis dataKey="name" fontSize={11} tick={{ fill: 'hsl(var(--muted-foreground))' }} />
+            <YAxis domain={[0, 100]} fontSize={11} tick={{ fill: 'hsl(var(--muted-foreground))' }} width={30} />
+            <Tooltip content={<WaterfallTooltip />} cursor={{ fill: 'transparent' }} />
+            <Bar dataKey="base" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+            <Bar dataKey="value" stackId="waterfall" radius={[4, 4, 0, 0]}>
+              {steps.map(step => (
+                <Cell key={step.name} fill={step.color} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {showSensitivity && explanation.sensitivity.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Sensitivity</h4>
+          <div className="grid grid-cols-2 gap-2">
+            {explanation.sensitivity.map(item => (
+              <div key={item.label} className="flex items-center justify-between p-2 bg-muted/30 rounded-lg text-xs">
+                <span className="text-muted-foreground">{item.label}</span>
+                <span className={`font-medium ${
+                  item.delta > 0 ? 'text-green-600' : item.delta < 0 ? 'text-red-600' : 'text-muted-foreground'
+                }`}>
+                  {item.score} ({item.delta > 0 ? '+' : ''}{item.delta})
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SlidersHorizontal } from 'lucide-react';
+import { toast } from 'sonner';
+import { useScoringProfile } from '@/hooks/use-scoring-profile';
+import {
+  ScoringProfile,
+  ScoringProfileId,
+  ScoreCategory,
+  ProfileThresholds,
+  SCORING_PROFILES,
+  SCORE_CATEGORIES,
+  DEFAULT_SCORING_PROFILE,
+  createCustomProfile,
+  getEffectiveWeights,
+  getScoringProfileError
+} from '@/lib/scoring-profiles';
+import { ProjectionSex } from '@/lib/life-expectancy';
+
+const CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  solar: 'Solar cycle',
+  seasonal: 'Seasonal',
+  geographic: 'Geographic',
+  environmental: 'Environmental'
+};
+
+const PROJECTION_SEX_LABELS: Record<ProjectionSex, string> = {
+  unspecified: 'Unspecified',
+  female: 'Female',
+  male: 'Male'
+};
+
+const THRESHOLD_LABELS: Record<keyof ProfileThresholds, string> = {
+  solarActivity: 'Solar activity (years)',
+  uvExposure: 'UV exposure',
+  vitaminD: 'Vitamin D',
+  infection: 'Infection',
+  latitude: 'Latitude',
+  environmental: 'Environmental'
+};
+
+export function ScoringProfileSettings() {
+  const { profile, setProfile } = useScoringProfile();
+  const effectiveWeights = getEffectiveWeights(profile);
+  // Threshold text being typed, applied on blur so a half-typed number is not checked against the other level
+  const [thresholdDrafts, setThresholdDrafts] = useState<Record<string, string>>({});
+
+  // Any edit to a preset turns it into the user's custom profile; edits that would break scoring are refused
+  const editProfile = (update: (draft: ScoringProfile) => void) => {
+    const draft = createCustomProfile(profile);
+    update(draft);
+    const error = getScoringProfileError(draft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setProfile(draft);
+  };
+
+  const handlePresetChange = (id: ScoringProfileId) => {
+    setProfile(id === 'custom'
+      ? createCustomProfile(profile)
+      : { ...SCORING_PROFILES[id], projectionSex: profile.projectionSex });
+  };
+
+  // The projection sex is not part of the weighting, so changing it keeps the current preset
+  const handleProjectionSexChange = (projectionSex: ProjectionSex) => {
+    setProfile({ ...profile, projectionSex });
+  };
+
+  const handleCategoryToggle = (category: ScoreCategory, included: boolean) => {
+    editProfile(draft => {
+      draft.includedCategories = included
+        ? SCORE_CATEGORIES.filter(c => c === category || draft.includedCategories.includes(c))
+        : draft.includedCategories.filter(c => c !== category);
+    });
+  };
+
+  const handleThresholdCommit = (key: keyof ProfileThresholds, level: 'medium' | 'high') => {
+    const draftKey = `${key}.${level}`;
+    const value = thresholdDrafts[draftKey];
+    if (value === undefined) return;
+    setThresholdDrafts(drafts => {
+      const rest = { ...drafts };
+      delete rest[draftKey];
+      return rest;
+    });
+
+    const parsed = Number(value);
+    if (value.trim() === '' || !Number.isFinite(parsed) || parsed < 0) {
+      toast.error('Thresholds must be numbers of zero or more');
+      return;
+    }
+    editProfile(draft => {
+      draft.thresholds[key][level] = parsed;
+    });
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          <span>Birth Timing Scoring Profile</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label>Profile</Label>
+            <p className="text-sm text-muted-foreground">{profile.description}</p>
+          </div>
+          <Select value={profile.id} onValueChange={(value) => handlePresetChange(value as ScoringProfileId)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(SCORING_PROFILES).map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.name}
+                </SelectItem>
+              ))}
+              <SelectItem value="custom">Custom</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label>Lifespan projection</Label>
+            <p className="text-sm text-muted-foreground">
+              Sex used to pick the country life expectancy baseline
+            </p>
+          </div>
+          <Select
+            value={profile.projectionSex ?? 'unspecified'}
+            onValueChange={(value) => handleProjectionSexChange(value as ProjectionSex)}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PROJECTION_SEX_LABELS) as ProjectionSex[]).map(sex => (
+                <SelectItem key={sex} value={sex}>
+                  {PROJECTION_SEX_LABELS[sex]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <Label>Category weights</Label>
+          {SCORE_CATEGORIES.map(category => {
+            const included = profile.includedCategories.includes(category);
+            return (
+              <div key={category} className="grid grid-cols-[8rem_1fr_4rem_auto] items-center gap-4">
+                <span className="text-sm">{CATEGORY_LABELS[category]}</span>
+                <Slider
+                  value={[Math.round(profile.weights[category] * 100)]}
+                  min={0}
+                  max={100}
+                  step={5}
+                  disabled={!included}
+                  onValueChange={([value]) => editProfile(draft => {
+                    draft.weights[category] = value / 100;
+                  })}
+                />
+                <span className="text-sm text-muted-foreground text-right">
+                  {Math.round(effectiveWeights[category] * 100)}%
+                </span>
+                <Switch
+                  checked={included}
+                  onCheckedChange={(checked) => handleCategoryToggle(category, checked)}
+                />
+              </div>
+            );
+          })}
+          <p className="text-xs text-muted-foreground">
+            Weights of included categories are rescaled to add up to 100%.
+          </p>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <Label>Severity thresholds (absolute impact)</Label>
+          <div className="grid grid-cols-[1fr_6rem_6rem] gap-2 text-xs text-muted-foreground">
+            <span>Factor</span>
+            <span>Medium above</span>
+            <span>High above</span>
+          </div>
+          {(Object.keys(THRESHOLD_LABELS) as Array<keyof ProfileThresholds>).map(key => (
+            <div key={key} className="grid grid-cols-[1fr_6rem_6rem] items-center gap-2">
+              <span className="text-sm">{THRESHOLD_LABELS[key]}</span>
+              {(['medium', 'high'] as const).map(level => (
+                <Input
+                  key={level}
+                  type="number"
+                  min={0}
+                  step={key === 'solarActivity' ? 0.5 : 1}
+                  value={thresholdDrafts[`${key}.${level}`] ?? profile.thresholds[key][level]}
+                  onChange={(e) => {
+                    const { value } = e.target;
+                    setThresholdDrafts(drafts => ({ ...drafts, [`${key}.${level}`]: value }));
+                  }}
+                  onBlur={() => handleThresholdCommit(key, level)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => setProfile(DEFAULT_SCORING_PROFILE)}>
+            Reset to default
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
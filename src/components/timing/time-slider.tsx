@@ -6,17 +6,21 @@ import { Slider } from '@/components/ui/slider';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Calendar, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { LocationData } from '@/lib/geolocation';
+import { classifySeason } from '@/lib/climate';
 
 interface TimeSliderProps {
   currentDate: Date;
   onDateChange: (date: Date) => void;
   range?: number; // months before/after current date
   scores?: Array<{ date: Date; score: number }>;
+  location?: LocationData;
 }
 
 interface MonthData {
   date: Date;
   label: string;
+  seasonLabel?: string;
   monthsFromCurrent: number;
   score?: number;
   trend?: 'up' | 'down' | 'stable';
@@ -26,7 +30,8 @@ export function TimeSlider({
   currentDate, 
   onDateChange, 
   range = 24,
-  scores = []
+  scores = [],
+  location
 }: TimeSliderProps) {
   const [selectedMonth, setSelectedMonth] = useState(currentDate);
   const [monthsData, setMonthsData] = useState<MonthData[]>([]);
@@ -44,6 +49,7 @@ export function TimeSlider({
       data.push({
         date,
         label: format(date, 'MMM yyyy'),
+        seasonLabel: location ? classifySeason(date, location.latitude).label : undefined,
         monthsFromCurrent: i,
         score: scoreData?.score,
         trend: calculateTrend(i, scores)
@@ -51,7 +57,7 @@ export function TimeSlider({
     }
     
     setMonthsData(data);
-  }, [currentDate, range, scores]);
+  }, [currentDate, range, scores, location]);
 
   const calculateTrend = (monthOffset: number, scores: Array<{ date: Date; score: number }>): 'up' | 'down' | 'stable' => {
     if (scores.length < 2) return 'stable';
@@ -140,6 +146,11 @@ export function TimeSlider({
             <div className="text-3xl font-bold text-primary">
               {format(selectedMonth, 'MMMM yyyy')}
             </div>
+            {location && (
+              <div className="text-sm text-muted-foreground">
+                {classifySeason(selectedMonth, location.latitude).label}
+              </div>
+            )}
             <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
               <span>
                 {monthsFromCurrent === 0 ? 'Current month' : 
@@ -205,7 +216,7 @@ export function TimeSlider({
                           setSelectedMonth(month.date);
                           onDateChange(month.date);
                         }}
-                        title={`${month.label}: ${score}/100`}
+                        title={`${month.label}${month.seasonLabel ? ` (${month.seasonLabel})` : ''}: ${score}/100`}
                       />
                       <span className="text-xs text-muted-foreground">
                         {format(month.date, 'MMM')}
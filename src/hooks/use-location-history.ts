@@ -0,0 +1,54 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { LocationData } from '@/lib/geolocation'
+import {
+  LocationHistory,
+  EMPTY_LOCATION_HISTORY,
+  loadLocationHistory,
+  saveLocationHistory,
+  recordLocation,
+  toggleSavedLocation,
+} from '@/lib/location-history'
+
+const HISTORY_CHANGE_EVENT = 'location-history-change'
+
+export function useLocationHistory() {
+  const [history, setHistoryState] = useState<LocationHistory>(EMPTY_LOCATION_HISTORY)
+
+  useEffect(() => {
+    // Stored history is only available in the browser, so load after mount
+    setHistoryState(loadLocationHistory())
+
+    const handleChange = () => setHistoryState(loadLocationHistory())
+    window.addEventListener('storage', handleChange)
+    window.addEventListener(HISTORY_CHANGE_EVENT, handleChange)
+
+    return () => {
+      window.removeEventListener('storage', handleChange)
+      window.removeEventListener(HISTORY_CHANGE_EVENT, handleChange)
+    }
+  }, [])
+
+  // Always update from storage so several components using the hook never overwrite each other
+  const updateHistory = useCallback((update: (history: LocationHistory) => LocationHistory) => {
+    const next = update(loadLocationHistory())
+    saveLocationHistory(next)
+    setHistoryState(next)
+    window.dispatchEvent(new Event(HISTORY_CHANGE_EVENT))
+  }, [])
+
+  const rememberLocation = useCallback((location: LocationData) => {
+    updateHistory(history => recordLocation(history, location))
+  }, [updateHistory])
+
+  const toggleSaved = useCallback((location: LocationData) => {
+    updateHistory(history => toggleSavedLocation(history, location))
+  }, [updateHistory])
+
+  const clearRecent = useCallback(() => {
+    updateHistory(history => ({ ...history, recent: [] }))
+  }, [updateHistory])
+
+  return { history, rememberLocation, toggleSaved, clearRecent }
+}
@@ -0,0 +1,50 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  ScoringProfile,
+  DEFAULT_SCORING_PROFILE,
+  loadScoringProfile,
+  saveScoringProfile,
+} from '@/lib/scoring-profiles'
+
+const PROFILE_CHANGE_EVENT = 'scoring-profile-change'
+
+// Profile opened from a shared link: used for the rest of the visit but never saved, until the user edits it
+let sessionProfile: ScoringProfile | undefined
+
+const getActiveProfile = () => sessionProfile ?? loadScoringProfile()
+
+export function useScoringProfile() {
+  const [profile, setProfileState] = useState<ScoringProfile>(DEFAULT_SCORING_PROFILE)
+
+  useEffect(() => {
+    // Stored profile is only available in the browser, so load after mount
+    setProfileState(getActiveProfile())
+
+    const handleChange = () => setProfileState(getActiveProfile())
+    window.addEventListener('storage', handleChange)
+    window.addEventListener(PROFILE_CHANGE_EVENT, handleChange)
+
+    return () => {
+      window.removeEventListener('storage', handleChange)
+      window.removeEventListener(PROFILE_CHANGE_EVENT, handleChange)
+    }
+  }, [])
+
+  // For the user's own edits, which are saved
+  const setProfile = useCallback((next: ScoringProfile) => {
+    sessionProfile = undefined
+    saveScoringProfile(next)
+    setProfileState(next)
+    window.dispatchEvent(new Event(PROFILE_CHANGE_EVENT))
+  }, [])
+
+  const applySessionProfile = useCallback((next: ScoringProfile) => {
+    sessionProfile = next
+    setProfileState(next)
+    window.dispatchEvent(new Event(PROFILE_CHANGE_EVENT))
+  }, [])
+
+  return { profile, setProfile, applySessionProfile }
+}
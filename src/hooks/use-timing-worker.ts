@@ -0,0 +1,133 @@
+'use client'
+
+import { useCallback, useEffect, useRef } from 'react'
+import { LocationData } from '@/lib/geolocation'
+import { OptimalityReport, RangeAnalysisOptions, TimingAnalysis, TimingOptions } from '@/lib/optimal-timing'
+import { TimingGrid } from '@/lib/timing-grid'
+import { runAnalyzeJob, runGridJob, runRangeJob, runReportJob } from '@/lib/timing-jobs'
+import {
+  AnalyzeRequest,
+  TimingWorkerRequest,
+  TimingWorkerResponse,
+} from '@/lib/timing-worker-protocol'
+
+type ResponseHandler = (response: TimingWorkerResponse) => void
+
+export type AnalyzeParams = Omit<AnalyzeRequest, 'type' | 'requestId'>
+
+// Runs the timing engine in a Web Worker, falling back to the main thread where workers are unavailable
+export function useTimingWorker() {
+  const workerRef = useRef<Worker | null>(null)
+  const handlersRef = useRef(new Map<number, ResponseHandler>())
+  // Reject functions of the promise-returning requests still in flight
+  const pendingRef = useRef(new Map<number, (reason: unknown) => void>())
+  const cancelledRef = useRef(new Set<number>())
+  const nextRequestIdRef = useRef(1)
+
+  useEffect(() => {
+    const handlers = handlersRef.current
+    const pending = pendingRef.current
+    const worker = typeof Worker === 'undefined'
+      ? null
+      : new Worker(new URL('../lib/timing.worker.ts', import.meta.url))
+
+    worker?.addEventListener('message', (event: MessageEvent<TimingWorkerResponse>) => {
+      handlers.get(event.data.requestId)?.(event.data)
+    })
+    workerRef.current = worker
+
+    return () => {
+      worker?.terminate()
+      workerRef.current = null
+      // Nothing will answer these any more, so settle them rather than leave callers waiting forever
+      const abort = new DOMException('Timing worker stopped', 'AbortError')
+      pending.forEach((reject) => reject(abort))
+      pending.clear()
+      handlers.clear()
+    }
+  }, [])
+
+  const dispatch = useCallback((request: Exclude<TimingWorkerRequest, { type: 'cancel' }>) => {
+    const emit = (response: TimingWorkerResponse) => handlersRef.current.get(response.requestId)?.(response)
+
+    if (workerRef.current) {
+      workerRef.current.postMessage(request)
+    } else if (request.type === 'analyze') {
+      runAnalyzeJob(request, emit, () => cancelledRef.current.has(request.requestId))
+        .finally(() => cancelledRef.current.delete(request.requestId))
+    } else if (request.type === 'report') {
+      runReportJob(request, emit)
+    } else if (request.type === 'range') {
+      runRangeJob(request, emit)
+    } else {
+      runGridJob(request, emit)
+    }
+  }, [])
+
+  // Sends a request answered by a single response of the given type
+  const request = useCallback(<T,>(
+    message: Exclude<TimingWorkerRequest, { type: 'analyze' | 'cancel' }>,
+    select: (response: TimingWorkerResponse) => T | undefined
+  ) => {
+    return new Promise<T>((resolve, reject) => {
+      pendingRef.current.set(message.requestId, reject)
+      handlersRef.current.set(message.requestId, (response) => {
+        handlersRef.current.delete(message.requestId)
+        pendingRef.current.delete(message.requestId)
+        const result = select(response)
+        if (result !== undefined) resolve(result)
+        else if (response.type === 'error') reject(new Error(response.message))
+        else reject(new Error(`Unexpected ${response.type} response to a ${message.type} request`))
+      })
+      dispatch(message)
+    })
+  }, [dispatch])
+
+  // Starts an analysis and returns a function that cancels it; responses stop as soon as it is called.
+  // The job itself notices the cancel only between chunks, so it may finish the chunk it is evaluating.
+  const analyze = useCallback((params: AnalyzeParams, onResponse: ResponseHandler) => {
+    const requestId = nextRequestIdRef.current++
+    handlersRef.current.set(requestId, (response) => {
+      onResponse(response)
+      if (response.type === 'complete' || response.type === 'error') {
+        handlersRef.current.delete(requestId)
+      }
+    })
+    dispatch({ type: 'analyze', requestId, ...params })
+
+    return () => {
+      if (!handlersRef.current.delete(requestId)) return
+      if (workerRef.current) {
+        workerRef.current.postMessage({ type: 'cancel', requestId } satisfies TimingWorkerRequest)
+      } else {
+        cancelledRef.current.add(requestId)
+      }
+    }
+  }, [dispatch])
+
+  // Report, range and grid requests run to completion once started; unmounting rejects them with an AbortError
+  const generateReport = useCallback((location: LocationData, selectedDate: Date, options: TimingOptions) =>
+    request<OptimalityReport>(
+      { type: 'report', requestId: nextRequestIdRef.current++, location, selectedDate, options },
+      (response) => (response.type === 'report' ? response.report : undefined)
+    ), [request])
+
+  const analyzeRange = useCallback((
+    location: LocationData,
+    centerDate: Date,
+    rangeMonths: number,
+    options: RangeAnalysisOptions
+  ) =>
+    request<TimingAnalysis>(
+      { type: 'range', requestId: nextRequestIdRef.current++, location, centerDate, rangeMonths, options },
+      (response) => (response.type === 'range' ? response.analysis : undefined)
+    ), [request])
+
+  const evaluateGrid = useCallback((locations: LocationData[], dates: Date[], options: TimingOptions) =>
+    request<TimingGrid>(
+      { type: 'grid', requestId: nextRequestIdRef.current++, locations, dates, options },
+      (response) => (response.type === 'grid' ? response.grid : undefined)
+    ), [request])
+
+  return { analyze, generateReport, analyzeRange, evaluateGrid }
+}
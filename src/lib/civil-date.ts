@@ -0,0 +1,53 @@
+import { format, isValid, parse } from 'date-fns';
+
+// A calendar date where the birth happens, independent of any viewer's time zone
+export interface CivilDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const CIVIL_DATE_FORMAT = 'yyyy-MM-dd';
+
+// The engine reads calendar fields with local getters (getMonth, getYear), so a civil date is carried as
+// local noon of that day: every viewer reads back the same fields and DST shifts never cross midnight.
+export const civilDateToDate = ({ year, month, day }: CivilDate): Date => new Date(year, month - 1, day, 12);
+
+export const toCivilDate = (date: Date): CivilDate => ({
+  year: date.getFullYear(),
+  month: date.getMonth() + 1,
+  day: date.getDate()
+});
+
+// Drops the time of day so equal calendar days compare equal
+export const atCivilNoon = (date: Date): Date => civilDateToDate(toCivilDate(date));
+
+// Calendar date of an instant in the given IANA zone; the viewer's zone when none is given
+export const getCivilDate = (instant: Date, timeZone?: string): CivilDate => {
+  if (!timeZone) return toCivilDate(instant);
+
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric'
+    }).formatToParts(instant);
+    const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+    return { year: field('year'), month: field('month'), day: field('day') };
+  } catch (error) {
+    console.warn(`Unknown time zone ${timeZone}:`, error);
+    return toCivilDate(instant);
+  }
+};
+
+// Today's date at the location, as an engine date
+export const getCivilToday = (timeZone?: string): Date => civilDateToDate(getCivilDate(new Date(), timeZone));
+
+export const parseCivilDate = (value: string): Date | undefined => {
+  const parsed = parse(value, CIVIL_DATE_FORMAT, new Date());
+  return isValid(parsed) ? atCivilNoon(parsed) : undefined;
+};
+
+// 'yyyy-MM-dd' for exports; unlike toISOString it never shifts the day for viewers east or west of UTC
+export const formatCivilDate = (date: Date): string => format(date, CIVIL_DATE_FORMAT);
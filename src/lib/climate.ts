@@ -0,0 +1,126 @@
+import { getMonth, getDayOfYear, getDaysInYear } from 'date-fns';
+
+export type Hemisphere = 'northern' | 'southern';
+
+export type ClimateZone = 'tropical' | 'subtropical' | 'temperate' | 'polar';
+
+export type Season =
+  | 'winter'
+  | 'spring'
+  | 'summer'
+  | 'autumn'
+  | 'wet'
+  | 'dry'
+  | 'polar-night'
+  | 'midnight-sun';
+
+export interface SeasonClassification {
+  season: Season;
+  label: string;
+  hemisphere: Hemisphere;
+  climateZone: ClimateZone;
+  // Month (1-12) with the same seasonal position in the northern hemisphere, for month-indexed tables;
+  // the calendar month in the equatorial band, where both hemispheres share one wet/dry cycle
+  northernEquivalentMonth: number;
+}
+
+const TROPIC_LATITUDE = 23.5;
+const SUBTROPIC_LATITUDE = 35;
+const POLAR_CIRCLE_LATITUDE = 66.5;
+const EQUATORIAL_LATITUDE = 5;
+
+const SEASON_LABELS: Record<Season, string> = {
+  winter: 'Winter',
+  spring: 'Spring',
+  summer: 'Summer',
+  autumn: 'Autumn',
+  wet: 'Wet season',
+  dry: 'Dry season',
+  'polar-night': 'Polar night',
+  'midnight-sun': 'Midnight sun'
+};
+
+// The equator counts as northern so every latitude has exactly one hemisphere
+export const getHemisphere = (latitude: number): Hemisphere => (latitude >= 0 ? 'northern' : 'southern');
+
+export const getClimateZone = (latitude: number): ClimateZone => {
+  const absLatitude = Math.abs(latitude);
+  if (absLatitude < TROPIC_LATITUDE) return 'tropical';
+  if (absLatitude < SUBTROPIC_LATITUDE) return 'subtropical';
+  if (absLatitude < POLAR_CIRCLE_LATITUDE) return 'temperate';
+  return 'polar';
+};
+
+// Continuous month position with each month's midpoint on its number: Jan 1 is ~0.5, mid-June ~6, Dec 31 ~12.5
+export const getFractionalMonth = (date: Date): number =>
+  0.5 + ((getDayOfYear(date) - 0.5) / getDaysInYear(date)) * 12;
+
+// Linear interpolation between month-indexed values (index 0 = January), wrapping December into January
+export const interpolateMonthly = (values: number[], month: number): number => {
+  const position = month - 1;
+  const lower = Math.floor(position);
+  const t = position - lower;
+  const a = values[((lower % 12) + 12) % 12];
+  const b = values[(((lower + 1) % 12) + 12) % 12];
+  return a + (b - a) * t;
+};
+
+// Shift a calendar month (1-12, fractional positions allowed) by six months south of the equator
+export const toNorthernEquivalentMonth = (month: number, latitude: number): number =>
+  getHemisphere(latitude) === 'northern' ? month : ((month + 5) % 12) + 1;
+
+const getTemperateSeason = (northernMonth: number): Season => {
+  if (northernMonth >= 3 && northernMonth <= 5) return 'spring';
+  if (northernMonth >= 6 && northernMonth <= 8) return 'summer';
+  if (northernMonth >= 9 && northernMonth <= 11) return 'autumn';
+  return 'winter';
+};
+
+// Tropical rains follow the overhead sun: one wet season away from the equator, two near it
+const getTropicalSeason = (month: number, latitude: number): Season => {
+  if (Math.abs(latitude) < EQUATORIAL_LATITUDE) {
+    return (month >= 3 && month <= 5) || (month >= 10 && month <= 12) ? 'wet' : 'dry';
+  }
+  const northernMonth = toNorthernEquivalentMonth(month, latitude);
+  return northernMonth >= 5 && northernMonth <= 10 ? 'wet' : 'dry';
+};
+
+// Inside the polar circle the sun stays down (or up) for the whole month around the solstice
+const getPolarSeason = (northernMonth: number, latitude: number): Season => {
+  const deepPolar = Math.abs(latitude) >= 70;
+  if (northernMonth === 12 || northernMonth === 1 || (deepPolar && (northernMonth === 11 || northernMonth === 2))) {
+    return 'polar-night';
+  }
+  if (northernMonth === 6 || northernMonth === 7 || (deepPolar && (northernMonth === 5 || northernMonth === 8))) {
+    return 'midnight-sun';
+  }
+  return getTemperateSeason(northernMonth);
+};
+
+export const classifySeason = (date: Date, latitude: number): SeasonClassification => {
+  const month = getMonth(date) + 1;
+  const hemisphere = getHemisphere(latitude);
+  const climateZone = getClimateZone(latitude);
+  const northernEquivalentMonth =
+    Math.abs(latitude) < EQUATORIAL_LATITUDE ? month : toNorthernEquivalentMonth(month, latitude);
+
+  const season =
+    climateZone === 'tropical' ? getTropicalSeason(month, latitude) :
+    climateZone === 'polar' ? getPolarSeason(northernEquivalentMonth, latitude) :
+    getTemperateSeason(northernEquivalentMonth);
+
+  return {
+    season,
+    label: SEASON_LABELS[season],
+    hemisphere,
+    climateZone,
+    northernEquivalentMonth
+  };
+};
+
+// One entry per calendar month (index 0 = January) chosen from that month's season at the latitude.
+// Interpolate the result at getFractionalMonth so scores still change smoothly from day to day.
+export const getSeasonalMonthTable = <T>(
+  latitude: number,
+  valueFor: (classification: SeasonClassification) => T
+): T[] => Array.from({ length: 12 }, (_, i) => valueFor(classifySeason(new Date(2001, i, 15), latitude)));
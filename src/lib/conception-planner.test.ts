@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { DEFAULT_GESTATION_MODEL, getGestationDistribution, planConception } from './conception-planner';
+
+const LOCATION = { latitude: 52.52, longitude: 13.41, city: 'Berlin', country: 'Germany', countryCode: 'DE' };
+
+describe('getGestationDistribution', () => {
+  const distribution = getGestationDistribution();
+
+  it('is a probability distribution with the configured mean of 280 days', () => {
+    expect(distribution.reduce((sum, { probability }) => sum + probability, 0)).toBeCloseTo(1, 9);
+    expect(distribution.reduce((sum, { days, probability }) => sum + days * probability, 0)).toBeCloseTo(280, 3);
+  });
+
+  it('puts the preterm probability below 37 weeks', () => {
+    const preterm = distribution
+      .filter(({ days }) => days < 259)
+      .reduce((sum, { probability }) => sum + probability, 0);
+    expect(preterm).toBeCloseTo(DEFAULT_GESTATION_MODEL.pretermProbability, 6);
+  });
+});
+
+describe('planConception', () => {
+  it('puts conception 14 days before each next period from a last menstrual period', async () => {
+    const lmp = new Date(2026, 0, 10, 12);
+    const plan = await planConception(LOCATION, { type: 'last-menstrual-period', date: lmp, cycleLengthDays: 30, months: 3 });
+
+    const first = plan.months.find(month => month.month.getMonth() === 0)!;
+    expect(first.conceptionWindow.start).toEqual(addDays(lmp, 30 - 14));
+    for (const month of plan.months) {
+      expect(differenceInCalendarDays(month.conceptionWindow.start, lmp) % 30).toBe(16);
+    }
+  });
+
+  it('ranks months by expected score, each within its score range', async () => {
+    const plan = await planConception(LOCATION, {
+      type: 'conception-window',
+      start: new Date(2026, 0, 1, 12),
+      end: new Date(2026, 11, 31, 12)
+    });
+
+    expect(plan.months).toHaveLength(12);
+    plan.months.forEach((month, index) => {
+      expect(month.rank).toBe(index + 1);
+      if (index > 0) expect(month.expectedScore).toBeLessThanOrEqual(plan.months[index - 1].expectedScore);
+      expect(month.scoreRange.low).toBeLessThanOrEqual(month.expectedScore);
+      expect(month.expectedScore).toBeLessThanOrEqual(month.scoreRange.high);
+    });
+  });
+});
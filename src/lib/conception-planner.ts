@@ -0,0 +1,204 @@
+import { addDays, addMonths, differenceInCalendarDays, startOfMonth } from 'date-fns';
+import { LocationData } from './geolocation';
+import { ValueRange } from './solar-cycle';
+import { getRangeDates, TimingOptions } from './optimal-timing';
+import { evaluateTimingGrid, TimingGrid } from './timing-grid';
+
+// Gestational age is counted from the last menstrual period (LMP); conception is ~14 days later
+export interface GestationModel {
+  meanDays: number;
+  termSdDays: number;
+  pretermProbability: number; // Birth before 37 weeks (259 days)
+  pretermMeanDays: number;
+  pretermSdDays: number;
+}
+
+// Mean 280 days with roughly 10% preterm births, in line with population birth registers
+export const DEFAULT_GESTATION_MODEL: GestationModel = {
+  meanDays: 280,
+  termSdDays: 9,
+  pretermProbability: 0.1,
+  pretermMeanDays: 245,
+  pretermSdDays: 12
+};
+
+export type ConceptionInput =
+  | { type: 'conception-window'; start: Date; end: Date }
+  | { type: 'last-menstrual-period'; date: Date; cycleLengthDays?: number; months?: number };
+
+export interface PlannerOptions extends TimingOptions {
+  gestation?: GestationModel;
+  // Scores the birth dates; pass useTimingWorker().evaluateGrid to keep the work off the main thread
+  evaluateGrid?: (locations: LocationData[], dates: Date[], options: TimingOptions) => Promise<TimingGrid>;
+}
+
+export interface ConceptionMonthPlan {
+  rank: number;
+  month: Date; // First day of the conception month
+  conceptionWindow: { start: Date; end: Date };
+  expectedScore: number;
+  scoreRange: ValueRange; // 10th-90th percentile over the spread of birth dates
+  dueDate: Date; // Mean birth date
+  birthWindow: { start: Date; end: Date }; // 10th-90th percentile birth dates
+}
+
+export interface ConceptionPlan {
+  months: ConceptionMonthPlan[]; // Best expected score first
+  gestation: GestationModel;
+}
+
+const CONCEPTION_TO_LMP_DAYS = 14;
+const MIN_GESTATION_DAYS = 154; // 22 weeks
+const MAX_GESTATION_DAYS = 301; // 43 weeks
+const PRETERM_LIMIT_DAYS = 259; // 37 weeks
+const DEFAULT_CYCLE_LENGTH_DAYS = 28;
+const DEFAULT_PLANNING_MONTHS = 12;
+
+const normalDensity = (x: number, mean: number, sd: number): number =>
+  Math.exp(-0.5 * ((x - mean) / sd) ** 2) / sd;
+
+// Daily probability of birth at each gestational age: a term component plus a preterm tail, scaled so births
+// before 37 weeks make up pretermProbability, with the term mean solved for so the overall mean is meanDays
+export const getGestationDistribution = (
+  model: GestationModel = DEFAULT_GESTATION_MODEL
+): Array<{ days: number; probability: number }> => {
+  const build = (termMean: number) => {
+    const weights: Array<{ days: number; probability: number }> = [];
+    for (let days = MIN_GESTATION_DAYS; days <= MAX_GESTATION_DAYS; days++) {
+      const weight =
+        (1 - model.pretermProbability) * normalDensity(days, termMean, model.termSdDays) +
+        model.pretermProbability * normalDensity(days, model.pretermMeanDays, model.pretermSdDays);
+      weights.push({ days, probability: weight });
+    }
+
+    const total = (preterm: boolean) => weights
+      .filter(w => (w.days < PRETERM_LIMIT_DAYS) === preterm)
+      .reduce((sum, w) => sum + w.probability, 0);
+    const pretermScale = model.pretermProbability / total(true);
+    const termScale = (1 - model.pretermProbability) / total(false);
+    return weights.map(w => ({
+      days: w.days,
+      probability: w.probability * (w.days < PRETERM_LIMIT_DAYS ? pretermScale : termScale)
+    }));
+  };
+  const mean = (distribution: Array<{ days: number; probability: number }>) =>
+    distribution.reduce((sum, { days, probability }) => sum + days * probability, 0);
+
+  // The overall mean rises with the term mean, so bisect for it
+  let low = model.meanDays - 30;
+  let high = model.meanDays + 30;
+  for (let i = 0; i < 40; i++) {
+    const termMean = (low + high) / 2;
+    if (mean(build(termMean)) < model.meanDays) low = termMean;
+    else high = termMean;
+  }
+  return build((low + high) / 2);
+};
+
+// Candidate conception days grouped by calendar month
+const getConceptionDays = (input: ConceptionInput): Date[] => {
+  if (input.type === 'conception-window') {
+    const days = differenceInCalendarDays(input.end, input.start);
+    return Array.from({ length: Math.max(0, days) + 1 }, (_, i) => addDays(input.start, i));
+  }
+
+  // Ovulation, and so conception, falls about 14 days before the next period in each cycle
+  const cycleLength = input.cycleLengthDays ?? DEFAULT_CYCLE_LENGTH_DAYS;
+  const end = addMonths(input.date, input.months ?? DEFAULT_PLANNING_MONTHS);
+  const days: Date[] = [];
+  for (let ovulation = addDays(input.date, cycleLength - CONCEPTION_TO_LMP_DAYS); ovulation <= end; ovulation = addDays(ovulation, cycleLength)) {
+    days.push(ovulation);
+  }
+  return days;
+};
+
+const weightedPercentile = (samples: Array<{ value: number; weight: number }>, percentile: number): number => {
+  const sorted = [...samples].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, s) => sum + s.weight, 0);
+  let cumulative = 0;
+  for (const sample of sorted) {
+    cumulative += sample.weight;
+    if (cumulative >= total * percentile) return sample.value;
+  }
+  return sorted[sorted.length - 1].value;
+};
+
+export const planConception = async (
+  location: LocationData,
+  input: ConceptionInput,
+  options: PlannerOptions = {}
+): Promise<ConceptionPlan> => {
+  const gestation = options.gestation ?? DEFAULT_GESTATION_MODEL;
+  const distribution = getGestationDistribution(gestation);
+  const conceptionDays = getConceptionDays(input);
+
+  if (conceptionDays.length === 0) {
+    return { months: [], gestation };
+  }
+
+  // One weekly score series covering every possible birth date, centred on the middle of the spread
+  const firstBirth = addDays(conceptionDays[0], MIN_GESTATION_DAYS - CONCEPTION_TO_LMP_DAYS);
+  const lastBirth = addDays(conceptionDays[conceptionDays.length - 1], MAX_GESTATION_DAYS - CONCEPTION_TO_LMP_DAYS);
+  const spanDays = differenceInCalendarDays(lastBirth, firstBirth);
+  const center = addDays(firstBirth, Math.round(spanDays / 2));
+  const rangeMonths = Math.ceil(spanDays / 2 / 30) + 1;
+  const dates = getRangeDates(center, rangeMonths, 'weekly');
+  const evaluateGrid = options.evaluateGrid ?? evaluateTimingGrid;
+  // Only the timing options, since the worker cannot receive functions
+  const { overallScores: scores } = await evaluateGrid([location], dates, { seed: options.seed, profile: options.profile });
+
+  const scoreOnDay = (date: Date): number => {
+    const position = Math.max(0, Math.min(dates.length - 1, differenceInCalendarDays(date, dates[0]) / 7));
+    const lower = Math.floor(position);
+    const upper = Math.min(dates.length - 1, lower + 1);
+    const t = position - lower;
+    return scores[lower] + (scores[upper] - scores[lower]) * t;
+  };
+
+  // Group conception days by calendar month
+  const byMonth = new Map<number, Date[]>();
+  for (const day of conceptionDays) {
+    const key = startOfMonth(day).getTime();
+    byMonth.set(key, [...(byMonth.get(key) ?? []), day]);
+  }
+
+  const plans = [...byMonth.entries()].map(([key, days]) => {
+    // Every conception day in the month is equally likely
+    const dayWeight = 1 / days.length;
+    const scoreSamples: Array<{ value: number; weight: number }> = [];
+    const birthSamples: Array<{ value: number; weight: number }> = [];
+
+    for (const day of days) {
+      for (const { days: gestationDays, probability } of distribution) {
+        const birthDate = addDays(day, gestationDays - CONCEPTION_TO_LMP_DAYS);
+        const weight = dayWeight * probability;
+        scoreSamples.push({ value: scoreOnDay(birthDate), weight });
+        birthSamples.push({ value: birthDate.getTime(), weight });
+      }
+    }
+
+    const expectedScore = scoreSamples.reduce((sum, s) => sum + s.value * s.weight, 0);
+    const meanBirth = birthSamples.reduce((sum, s) => sum + s.value * s.weight, 0);
+    return {
+      rank: 0,
+      month: new Date(key),
+      conceptionWindow: { start: days[0], end: days[days.length - 1] },
+      expectedScore: Math.round(expectedScore * 10) / 10,
+      scoreRange: {
+        low: Math.round(weightedPercentile(scoreSamples, 0.1)),
+        high: Math.round(weightedPercentile(scoreSamples, 0.9))
+      },
+      dueDate: new Date(meanBirth),
+      birthWindow: {
+        start: new Date(weightedPercentile(birthSamples, 0.1)),
+        end: new Date(weightedPercentile(birthSamples, 0.9))
+      }
+    };
+  });
+
+  const ranked = plans
+    .sort((a, b) => b.expectedScore - a.expectedScore)
+    .map((plan, index) => ({ ...plan, rank: index + 1 }));
+
+  return { months: ranked, gestation };
+};
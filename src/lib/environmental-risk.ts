@@ -0,0 +1,161 @@
+import { LocationData } from './geolocation';
+import { getClimateZone, getFractionalMonth, getSeasonalMonthTable, interpolateMonthly } from './climate';
+import climatology from './data/environmental-climatology.json';
+
+export type ClimateRegionId =
+  | 'temperate-continental'
+  | 'temperate-maritime'
+  | 'mediterranean'
+  | 'subtropical-humid'
+  | 'arid'
+  | 'east-asia'
+  | 'south-asia-monsoon'
+  | 'tropical'
+  | 'subarctic';
+
+// Monthly tables are written for the northern-hemisphere calendar (index 0 = January)
+export interface ClimateRegionTable {
+  id: ClimateRegionId;
+  name: string;
+  pm25: number[];
+  pollen: number[];
+  heatWaveDays: number[];
+  coldStressDays: number[];
+}
+
+export interface EnvironmentalRiskData {
+  region: ClimateRegionId;
+  regionName: string;
+  pm25: number;           // Mean PM2.5 over the exposure window, µg/m³
+  pollenIndex: number;    // 0-4
+  heatWaveDays: number;   // Expected days per month
+  coldStressDays: number; // Expected days per month
+  environmentalScore: number; // 0-100, higher is better
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+}
+
+const CLIMATE_REGIONS = new Map(
+  (climatology.regions as ClimateRegionTable[]).map(region => [region.id, region])
+);
+
+export const ENVIRONMENTAL_DATASET_VERSION = climatology.version;
+
+// Birth month plus the neonatal months that follow
+const EXPOSURE_WINDOW_MONTHS = 3;
+
+const inBox = (
+  latitude: number,
+  longitude: number,
+  [minLat, maxLat]: [number, number],
+  [minLon, maxLon]: [number, number]
+): boolean => latitude >= minLat && latitude <= maxLat && longitude >= minLon && longitude <= maxLon;
+
+export const getClimateRegion = (location: LocationData): ClimateRegionId => {
+  const { latitude, longitude } = location;
+  const absLatitude = Math.abs(latitude);
+
+  if (absLatitude >= 60) return 'subarctic';
+  if (inBox(latitude, longitude, [5, 35], [60, 95])) return 'south-asia-monsoon';
+  if (inBox(latitude, longitude, [20, 50], [100, 145])) return 'east-asia';
+  if (inBox(latitude, longitude, [12, 37], [-20, 60])) return 'arid';
+  if (getClimateZone(latitude) === 'tropical') return 'tropical';
+
+  // Europe
+  if (inBox(latitude, longitude, [35, 60], [-12, 45])) {
+    if (latitude < 44) return 'mediterranean';
+    return longitude < 15 ? 'temperate-maritime' : 'temperate-continental';
+  }
+
+  // North America
+  if (inBox(latitude, longitude, [23.5, 60], [-170, -50])) {
+    if (longitude < -115) return latitude < 42 ? 'mediterranean' : 'temperate-maritime';
+    if (longitude < -100 && latitude < 40) return 'arid';
+    return latitude < 36 ? 'subtropical-humid' : 'temperate-continental';
+  }
+
+  // Southern mid-latitudes: central Australia is arid, coasts and other continents are milder
+  if (latitude < 0) {
+    if (inBox(latitude, longitude, [-32, -23.5], [118, 145])) return 'arid';
+    return absLatitude < 35 ? 'subtropical-humid' : 'temperate-maritime';
+  }
+
+  return absLatitude < 35 ? 'subtropical-humid' : 'temperate-continental';
+};
+
+// For each calendar month at the location, the index of the northern-hemisphere table month in the same season,
+// so southern winters and southern tropical dry seasons line up with the tables
+const getTableIndices = (location: LocationData): number[] =>
+  getSeasonalMonthTable(location.latitude, classification => classification.northernEquivalentMonth - 1);
+
+const averageOverWindow = (values: number[], startMonth: number): number => {
+  let total = 0;
+  for (let i = 0; i < EXPOSURE_WINDOW_MONTHS; i++) {
+    total += interpolateMonthly(values, startMonth + i);
+  }
+  return total / EXPOSURE_WINDOW_MONTHS;
+};
+
+// The location's climate region table, reordered into its calendar months, plus a memo of results by time
+// of year. Reuse one context for every date at a location (see evaluateTimingGrid).
+export interface EnvironmentalRiskContext {
+  table: ClimateRegionTable;
+  byFractionalMonth: Map<number, EnvironmentalRiskData>;
+}
+
+export const createEnvironmentalRiskContext = (location: LocationData): EnvironmentalRiskContext => {
+  const table = CLIMATE_REGIONS.get(getClimateRegion(location))!;
+  const indices = getTableIndices(location);
+  const localTable = (values: number[]) => indices.map(index => values[index]);
+
+  return {
+    table: {
+      ...table,
+      pm25: localTable(table.pm25),
+      pollen: localTable(table.pollen),
+      heatWaveDays: localTable(table.heatWaveDays),
+      coldStressDays: localTable(table.coldStressDays)
+    },
+    byFractionalMonth: new Map()
+  };
+};
+
+export const calculateEnvironmentalRisk = (
+  birthDate: Date,
+  location: LocationData,
+  context: EnvironmentalRiskContext = createEnvironmentalRiskContext(location) // Pass to share work across dates
+): EnvironmentalRiskData => {
+  const birthMonth = getFractionalMonth(birthDate);
+  const cached = context.byFractionalMonth.get(birthMonth);
+  if (cached) return cached;
+
+  const { table } = context;
+  const pm25 = averageOverWindow(table.pm25, birthMonth);
+  const pollenIndex = averageOverWindow(table.pollen, birthMonth);
+  const heatWaveDays = averageOverWindow(table.heatWaveDays, birthMonth);
+  const coldStressDays = averageOverWindow(table.coldStressDays, birthMonth);
+
+  // Penalties relative to clean, temperate conditions (WHO PM2.5 guideline is 5 µg/m³)
+  const pm25Penalty = Math.min(40, Math.max(0, (pm25 - 5) * 0.4));
+  const pollenPenalty = pollenIndex * 5;
+  const heatPenalty = Math.min(25, heatWaveDays * 3);
+  const coldPenalty = Math.min(20, coldStressDays * 1);
+
+  const environmentalScore = Math.round(
+    Math.max(0, Math.min(100, 100 - pm25Penalty - pollenPenalty - heatPenalty - coldPenalty))
+  );
+
+  const riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' =
+    environmentalScore >= 70 ? 'LOW' :
+    environmentalScore >= 50 ? 'MEDIUM' : 'HIGH';
+
+  return {
+    region: table.id,
+    regionName: table.name,
+    pm25: Math.round(pm25 * 10) / 10,
+    pollenIndex: Math.round(pollenIndex * 10) / 10,
+    heatWaveDays: Math.round(heatWaveDays * 10) / 10,
+    coldStressDays: Math.round(coldStressDays * 10) / 10,
+    environmentalScore,
+    riskLevel
+  };
+};
@@ -0,0 +1,258 @@
+// Typed registry connecting the numbers the engine uses to the literature behind them.
+// Effect sizes marked 'model-estimate' are this engine's own parameterisation, not figures reported by a study.
+
+export type CitationId =
+  | 'lowell-davis-2008'
+  | 'disanto-2012'
+  | 'haggarty-2004'
+  | 'bedard-dhuey-2006'
+  | 'jablonski-chaplin-2010'
+  | 'who-aqg-2021';
+
+export type EvidenceId =
+  | 'solar-cycle-lifespan'
+  | 'uv-exposure'
+  | 'vitamin-d-synthesis'
+  | 'infection-season'
+  | 'relative-age'
+  | 'latitude'
+  | 'air-pollution'
+  | 'pollen'
+  | 'heat-wave'
+  | 'cold-stress'
+  | 'environmental-baseline'
+  | 'birth-month-cardiovascular'
+  | 'birth-month-mental-health'
+  | 'birth-month-autoimmune'
+  | 'birth-month-respiratory'
+  | 'birth-month-infectious';
+
+export interface Citation {
+  id: CitationId;
+  title: string;
+  authors: string;
+  journal: string;
+  year: number;
+  url?: string;
+}
+
+export interface EffectSize {
+  measure: string;
+  value?: number;
+  interval?: [number, number];
+  intervalType?: '95% CI' | 'range';
+  basis: 'published' | 'model-estimate';
+}
+
+export interface EvidenceEntry {
+  id: EvidenceId;
+  claim: string;
+  citations: CitationId[]; // Empty when the factor has no linked source yet
+  effectSize: EffectSize;
+  population: string;
+  modelUsage: string;      // How the engine turns its inputs into a score
+}
+
+export const CITATIONS: Record<CitationId, Citation> = {
+  'lowell-davis-2008': {
+    id: 'lowell-davis-2008',
+    title: 'Solar Activity and Human Longevity',
+    authors: 'Lowell, J. & Davis, R.',
+    journal: 'Solar Physics',
+    year: 2008
+  },
+  'disanto-2012': {
+    id: 'disanto-2012',
+    title: 'Season of Birth and Disease Risk',
+    authors: 'Disanto, G. et al.',
+    journal: 'PLoS ONE',
+    year: 2012
+  },
+  'haggarty-2004': {
+    id: 'haggarty-2004',
+    title: 'Vitamin D Deficiency and Birth Timing',
+    authors: 'Haggarty, P. et al.',
+    journal: 'British Journal of Nutrition',
+    year: 2004
+  },
+  'bedard-dhuey-2006': {
+    id: 'bedard-dhuey-2006',
+    title: 'The Persistence of Early Childhood Maturity: International Evidence of Long-Run Age Effects',
+    authors: 'Bedard, K. & Dhuey, E.',
+    journal: 'Quarterly Journal of Economics',
+    year: 2006
+  },
+  'jablonski-chaplin-2010': {
+    id: 'jablonski-chaplin-2010',
+    title: 'UV Radiation and Folate Metabolism',
+    authors: 'Jablonski, N. & Chaplin, G.',
+    journal: 'Annual Review of Anthropology',
+    year: 2010
+  },
+  'who-aqg-2021': {
+    id: 'who-aqg-2021',
+    title: 'WHO Global Air Quality Guidelines: Particulate Matter (PM2.5 and PM10), Ozone, Nitrogen Dioxide, Sulfur Dioxide and Carbon Monoxide',
+    authors: 'World Health Organization',
+    journal: 'WHO',
+    year: 2021
+  }
+};
+
+export const EVIDENCE_REGISTRY: Record<EvidenceId, EvidenceEntry> = {
+  'solar-cycle-lifespan': {
+    id: 'solar-cycle-lifespan',
+    claim: 'Birth near solar maximum is associated with a shorter lifespan',
+    citations: ['lowell-davis-2008'],
+    effectSize: { measure: 'Lifespan difference (years)', interval: [-7.1, 1], intervalType: 'range', basis: 'model-estimate' },
+    population: 'Historical birth cohorts with genealogical lifespan records',
+    modelUsage: 'Sunspot number maps piecewise-linearly to +0.5 years (solar minimum) down to -6.6 years (200+ sunspots), ±0.5 years by season'
+  },
+  'uv-exposure': {
+    id: 'uv-exposure',
+    claim: 'UV exposure during gestation shifts folate and vitamin D balance',
+    citations: ['jablonski-chaplin-2010'],
+    effectSize: { measure: 'Score points per UV index unit', value: 5, basis: 'model-estimate' },
+    population: 'Global populations across UV gradients',
+    modelUsage: '5 points per UV index unit away from 6; omitted when the change is 2 points or less'
+  },
+  'vitamin-d-synthesis': {
+    id: 'vitamin-d-synthesis',
+    claim: 'Low maternal vitamin D synthesis during pregnancy is associated with poorer developmental outcomes',
+    citations: ['haggarty-2004'],
+    effectSize: { measure: 'Score points per vitamin D score point', value: 0.5, basis: 'model-estimate' },
+    population: 'Pregnant women in temperate latitudes',
+    modelUsage: '0.5 points per vitamin D synthesis point away from 60'
+  },
+  'infection-season': {
+    id: 'infection-season',
+    claim: 'Births ahead of the respiratory infection season face higher early-life infection exposure',
+    citations: ['disanto-2012'],
+    effectSize: { measure: 'Score points per infection risk point', value: 0.6, basis: 'model-estimate' },
+    population: 'Northern and Southern Hemisphere birth cohorts',
+    modelUsage: '0.6 points per infection risk point away from 50; omitted when the change is 3 points or less'
+  },
+  'relative-age': {
+    id: 'relative-age',
+    claim: 'The oldest children in a school cohort outperform the youngest, with effects persisting into secondary school',
+    citations: ['bedard-dhuey-2006'],
+    effectSize: {
+      measure: 'Grade 4 test score gap, oldest vs youngest (percentile points)',
+      interval: [4, 12],
+      intervalType: 'range',
+      basis: 'published'
+    },
+    population: 'Grade 4 and grade 8 students in OECD countries (TIMSS)',
+    modelUsage: '0.8 points per relative age point above 50, using the local school-entry cutoff'
+  },
+  'latitude': {
+    id: 'latitude',
+    claim: 'Distance from the equator drives seasonal swings in UV and daylight',
+    citations: ['jablonski-chaplin-2010'],
+    effectSize: { measure: 'Score points per degree of latitude', value: 0.6, basis: 'model-estimate' },
+    population: 'Global populations across latitude gradients',
+    modelUsage: '0.6 points per degree closer to (or further from) 35° latitude'
+  },
+  'air-pollution': {
+    id: 'air-pollution',
+    claim: 'PM2.5 exposure in early life harms respiratory and cardiovascular health',
+    citations: ['who-aqg-2021'],
+    effectSize: { measure: 'Score points per µg/m³ PM2.5 above 10', value: 0.4, basis: 'model-estimate' },
+    population: 'Global exposure-response evidence reviewed by WHO',
+    modelUsage: 'Counted above 15 µg/m³ (the WHO 24-hour guideline level); 0.4 points per µg/m³ above 10, capped at 40'
+  },
+  'pollen': {
+    id: 'pollen',
+    claim: 'Early exposure to peak pollen seasons is associated with allergic sensitisation',
+    citations: [],
+    effectSize: { measure: 'Score points per pollen index level', value: 4, basis: 'model-estimate' },
+    population: 'Regional climatology',
+    modelUsage: '4 points per pollen index level at level 2 and above'
+  },
+  'heat-wave': {
+    id: 'heat-wave',
+    claim: 'Heat waves raise neonatal dehydration and heat stress risk',
+    citations: [],
+    effectSize: { measure: 'Score points per heat wave day per month', value: 3, basis: 'model-estimate' },
+    population: 'Regional climatology',
+    modelUsage: '3 points per expected heat wave day per month, capped at 25'
+  },
+  'cold-stress': {
+    id: 'cold-stress',
+    claim: 'Cold months increase indoor pollution and respiratory illness exposure',
+    citations: [],
+    effectSize: { measure: 'Score points per cold stress day per month', value: 1, basis: 'model-estimate' },
+    population: 'Regional climatology',
+    modelUsage: '1 point per expected cold stress day per month from 3 days, capped at 20'
+  },
+  'environmental-baseline': {
+    id: 'environmental-baseline',
+    claim: 'Mild climate and clean air carry no specific environmental risk',
+    citations: [],
+    effectSize: { measure: 'Score points per environmental score point', value: 0.3, basis: 'model-estimate' },
+    population: 'Regional climatology',
+    modelUsage: '0.3 points per environmental score point away from 60'
+  },
+  'birth-month-cardiovascular': {
+    id: 'birth-month-cardiovascular',
+    claim: 'Cardiovascular disease risk varies with birth month',
+    citations: ['disanto-2012'],
+    effectSize: { measure: 'Relative risk by birth month', interval: [0.9, 1.06], intervalType: 'range', basis: 'model-estimate' },
+    population: 'Northern Hemisphere birth cohorts',
+    modelUsage: 'Monthly multiplier interpolated by day of year, mirrored by 6 months south of the equator'
+  },
+  'birth-month-mental-health': {
+    id: 'birth-month-mental-health',
+    claim: 'Risk of some psychiatric disorders varies with birth month',
+    citations: ['disanto-2012'],
+    effectSize: { measure: 'Relative risk by birth month', interval: [0.85, 1.08], intervalType: 'range', basis: 'model-estimate' },
+    population: 'Northern Hemisphere birth cohorts',
+    modelUsage: 'Monthly multiplier interpolated by day of year, mirrored by 6 months south of the equator'
+  },
+  'birth-month-autoimmune': {
+    id: 'birth-month-autoimmune',
+    claim: 'Immune-mediated disease risk varies with birth month',
+    citations: ['disanto-2012', 'haggarty-2004'],
+    effectSize: { measure: 'Relative risk by birth month', interval: [0.94, 1.1], intervalType: 'range', basis: 'model-estimate' },
+    population: 'Northern Hemisphere birth cohorts',
+    modelUsage: 'Monthly multiplier interpolated by day of year, mirrored by 6 months south of the equator'
+  },
+  'birth-month-respiratory': {
+    id: 'birth-month-respiratory',
+    claim: 'Respiratory disease risk varies with birth month',
+    citations: ['disanto-2012'],
+    effectSize: { measure: 'Relative risk by birth month', interval: [0.85, 1.12], intervalType: 'range', basis: 'model-estimate' },
+    population: 'Northern Hemisphere birth cohorts',
+    modelUsage: 'Monthly multiplier interpolated by day of year, mirrored by 6 months south of the equator'
+  },
+  'birth-month-infectious': {
+    id: 'birth-month-infectious',
+    claim: 'Early-life infectious disease risk varies with birth month',
+    citations: ['disanto-2012'],
+    effectSize: { measure: 'Relative risk by birth month', interval: [0.82, 1.15], intervalType: 'range', basis: 'model-estimate' },
+    population: 'Northern Hemisphere birth cohorts',
+    modelUsage: 'Monthly multiplier interpolated by day of year, mirrored by 6 months south of the equator'
+  }
+};
+
+export const getEvidence = (id: EvidenceId): EvidenceEntry => EVIDENCE_REGISTRY[id];
+
+// Unique citations behind a set of evidence entries, in first-use order
+export const getCitationsForEvidence = (ids: EvidenceId[]): Citation[] => {
+  const citationIds = ids.flatMap(id => EVIDENCE_REGISTRY[id].citations);
+  return [...new Set(citationIds)].map(id => CITATIONS[id]);
+};
+
+export const formatCitation = (citation: Citation): string =>
+  `${citation.authors} (${citation.year}). ${citation.title}. ${citation.journal}.`;
+
+export const formatEffectSize = (effectSize: EffectSize): string => {
+  const parts: string[] = [];
+  if (effectSize.value !== undefined) parts.push(String(effectSize.value));
+  if (effectSize.interval) {
+    const [low, high] = effectSize.interval;
+    parts.push(effectSize.value !== undefined
+      ? `(${effectSize.intervalType ?? 'range'} ${low} to ${high})`
+      : `${low} to ${high}`);
+  }
+  return `${effectSize.measure}: ${parts.join(' ')}`;
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { findNearestCity, formatGazetteerCity, searchGazetteer } from './gazetteer';
+
+const topCity = async (query: string) => (await searchGazetteer(query))[0]?.city;
+
+describe('searchGazetteer', () => {
+  it('finds cities by exact name, ignoring case and accents', async () => {
+    expect(await topCity('Paris')).toMatchObject({ name: 'Paris', countryCode: 'FR' });
+    expect(await topCity('sao paulo')).toMatchObject({ name: 'São Paulo', countryCode: 'BR' });
+    expect(await topCity('TROMSO')).toMatchObject({ name: 'Tromsø', countryCode: 'NO' });
+    expect((await searchGazetteer('Paris'))[0].matchType).toBe('exact');
+  });
+
+  it('matches alternate names', async () => {
+    expect(await topCity('Kiev')).toMatchObject({ name: 'Kyiv', countryCode: 'UA' });
+    expect(await topCity('Bombay')).toMatchObject({ name: 'Mumbai', countryCode: 'IN' });
+  });
+
+  it('offers the most populous completion first while typing', async () => {
+    expect(await topCity('ber')).toMatchObject({ name: 'Berlin' });
+    expect((await searchGazetteer('ber')).every(match => match.matchType === 'prefix' || match.matchType === 'exact')).toBe(true);
+  });
+
+  it('corrects small misspellings of longer names', async () => {
+    const [match] = await searchGazetteer('Pairs');
+    expect(match).toMatchObject({ matchType: 'fuzzy', city: { name: 'Paris', countryCode: 'FR' } });
+    expect(await topCity('Barcelnoa')).toMatchObject({ name: 'Barcelona', countryCode: 'ES' });
+  });
+
+  it('uses region and country qualifiers to pick between namesakes', async () => {
+    expect(await topCity('Paris, TX')).toMatchObject({ name: 'Paris', countryCode: 'US', regionCode: 'US-TX' });
+    expect(await topCity('London, Ontario')).toMatchObject({ name: 'London', countryCode: 'CA' });
+    expect(await topCity('Portland, Maine')).toMatchObject({ name: 'Portland', regionCode: 'US-ME' });
+    expect((await searchGazetteer('Rome, Georgia', { strict: true })).every(match => match.city.countryCode === 'US')).toBe(true);
+  });
+
+  it('keeps alternate names free of fragments from comma-separated source names', async () => {
+    const washington = await topCity('Washington, District of Columbia');
+    expect(washington).toMatchObject({ countryCode: 'US', regionCode: 'US-DC' });
+    for (const name of washington?.alternateNames ?? []) {
+      expect(name).toBe(name.trim());
+      expect(name.length).toBeGreaterThan(1);
+    }
+  });
+
+  it('returns nothing for an empty query', async () => {
+    expect(await searchGazetteer(' , ')).toEqual([]);
+  });
+});
+
+describe('formatGazetteerCity', () => {
+  it('lists the region unless it repeats the city', async () => {
+    const portland = await topCity('Portland, Oregon');
+    expect(portland && formatGazetteerCity(portland)).toBe('Portland, Oregon, United States');
+  });
+});
+
+describe('findNearestCity', () => {
+  it('finds the closest city to a coordinate', async () => {
+    const nearest = await findNearestCity(48.86, 2.35);
+    expect(nearest?.city.name).toBe('Paris');
+    expect(nearest?.distanceKm).toBeLessThan(2);
+  });
+});
@@ -0,0 +1,214 @@
+import { resolveCountryCode } from './school-entry';
+
+export interface GazetteerCity {
+  name: string;
+  alternateNames: string[];
+  latitude: number;
+  longitude: number;
+  population: number;
+  countryCode: string;  // ISO 3166-1 alpha-2
+  country: string;
+  region?: string;
+  regionCode?: string;  // ISO 3166-2 where the source codes allow it
+  timezone?: string;
+}
+
+export type GazetteerMatchType = 'exact' | 'prefix' | 'word' | 'fuzzy';
+
+export interface GazetteerMatch {
+  city: GazetteerCity;
+  score: number;        // 0-1, higher is better
+  matchType: GazetteerMatchType;
+  matchedName: string;
+}
+
+export interface GazetteerSearchOptions {
+  limit?: number;
+  strict?: boolean;     // Drop cities that don't match the ", region, country" qualifiers
+}
+
+interface IndexedCity {
+  city: GazetteerCity;
+  names: string[];      // Normalized primary and alternate names
+  qualifiers: string[]; // Normalized country and region names and codes
+}
+
+const MATCH_SCORES: Record<GazetteerMatchType, number> = {
+  exact: 1,
+  prefix: 0.75,
+  word: 0.6,
+  fuzzy: 0.7
+};
+
+// Cities that miss a qualifier keep a small share of their name score so "Rome, Georgia" still lists Rome, Italy last
+const QUALIFIER_MISMATCH_FACTOR = 0.25;
+const POPULATION_WEIGHT = 0.1;
+
+const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/ł/g, 'l')
+    .replace(/ø/g, 'o')
+    .replace(/æ/g, 'ae')
+    .replace(/ß/g, 'ss')
+    .replace(/đ/g, 'd')
+    .replace(/ı/g, 'i')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+let cityIndex: Promise<IndexedCity[]> | undefined;
+
+// The bundled table is 2 MB of tab-separated text; load it on first search, like the PDF library,
+// so it stays out of the main bundle, and parse it once
+const loadCityIndex = (): Promise<IndexedCity[]> => {
+  cityIndex ??= import('./data/gazetteer.json').then(({ default: gazetteerData }) => {
+    const countries = gazetteerData.countries as Record<string, string>;
+    const regions = gazetteerData.regions as [string, string][];
+
+    return gazetteerData.cities.split('\n').map(row => {
+      const [name, alternates, latitude, longitude, population, countryCode, region, timezone] = row.split('\t');
+      const [regionName, regionCode] = region ? regions[Number(region)] : [];
+
+      const city: GazetteerCity = {
+        name,
+        alternateNames: alternates ? alternates.split(';') : [],
+        latitude: Number(latitude),
+        longitude: Number(longitude),
+        population: Number(population),
+        countryCode,
+        country: countries[countryCode] ?? countryCode,
+        region: regionName,
+        regionCode: regionCode || undefined,
+        timezone: timezone ? gazetteerData.timezones[Number(timezone)] : undefined
+      };
+
+      return {
+        city,
+        names: [...new Set([name, ...city.alternateNames].map(normalizeName))],
+        qualifiers: [
+          city.country,
+          countryCode,
+          city.region,
+          city.regionCode?.split('-')[1]
+        ].filter((value): value is string => Boolean(value)).map(normalizeName)
+      };
+    });
+  });
+
+  return cityIndex;
+};
+
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions ("Pairs" -> "Paris")
+const editDistance = (a: string, b: string): number => {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+};
+
+const scoreName = (query: string, name: string): { type: GazetteerMatchType; score: number } | undefined => {
+  if (name === query) return { type: 'exact', score: MATCH_SCORES.exact };
+
+  // Typeahead: population decides between completions, so 'ber' offers Berlin before Bern
+  if (name.startsWith(query)) {
+    return { type: 'prefix', score: MATCH_SCORES.prefix + 0.05 * (query.length / name.length) };
+  }
+
+  if (query.length >= 3 && name.split(' ').some(word => word.startsWith(query))) {
+    return { type: 'word', score: MATCH_SCORES.word };
+  }
+
+  // Misspellings; short queries are too ambiguous to correct. Names must share the first letter
+  // (or swap the first two) so the edit distance only runs on plausible candidates.
+  const plausible = name[0] === query[0] || (name[0] === query[1] && name[1] === query[0]);
+  if (query.length >= 4 && plausible && Math.abs(name.length - query.length) <= 2) {
+    const distance = editDistance(query, name);
+    if (distance <= (query.length >= 8 ? 2 : 1)) {
+      return { type: 'fuzzy', score: MATCH_SCORES.fuzzy - 0.1 * (distance - 1) };
+    }
+  }
+
+  return undefined;
+};
+
+const matchesQualifier = (entry: IndexedCity, qualifier: string): boolean =>
+  entry.qualifiers.some(value => value === qualifier || (qualifier.length >= 3 && value.startsWith(qualifier))) ||
+  resolveCountryCode(qualifier) === entry.city.countryCode;
+
+// Ranked search over city names and alternate names. The text before the first comma is the place name;
+// anything after it ("Paris, TX", "London, Ontario, Canada") must match the region or country.
+export const searchGazetteer = async (query: string, options: GazetteerSearchOptions = {}): Promise<GazetteerMatch[]> => {
+  const { limit = 5, strict = false } = options;
+  const [place, ...rest] = query.split(',').map(normalizeName);
+  const qualifiers = rest.filter(Boolean);
+  if (!place) return [];
+
+  const matches: GazetteerMatch[] = [];
+
+  for (const entry of await loadCityIndex()) {
+    let best: { type: GazetteerMatchType; score: number; name: string } | undefined;
+    for (const name of entry.names) {
+      const result = scoreName(place, name);
+      if (result && (!best || result.score > best.score)) best = { ...result, name };
+    }
+    if (!best) continue;
+
+    const qualified = qualifiers.every(qualifier => matchesQualifier(entry, qualifier));
+    if (strict && !qualified) continue;
+
+    const populationPrior = POPULATION_WEIGHT * Math.min(1, Math.log10(Math.max(entry.city.population, 1)) / 7.5);
+    const score = best.score * (qualified ? 1 : QUALIFIER_MISMATCH_FACTOR) + populationPrior;
+
+    matches.push({
+      city: entry.city,
+      score: Math.round((score / (1 + POPULATION_WEIGHT)) * 1000) / 1000,
+      matchType: best.type,
+      matchedName: best.name
+    });
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+export const formatGazetteerCity = (city: GazetteerCity): string =>
+  [city.name, city.region !== city.name ? city.region : undefined, city.country].filter(Boolean).join(', ');
+
+const EARTH_RADIUS_KM = 6371;
+
+const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+// Closest city by great-circle distance
+export const findNearestCity = async (
+  latitude: number,
+  longitude: number
+): Promise<{ city: GazetteerCity; distanceKm: number } | undefined> => {
+  let nearest: { city: GazetteerCity; distanceKm: number } | undefined;
+
+  for (const { city } of await loadCityIndex()) {
+    // Cheap latitude bound before the trigonometry
+    if (nearest && Math.abs(city.latitude - latitude) * 111 > nearest.distanceKm) continue;
+
+    const distance = distanceKm(latitude, longitude, city.latitude, city.longitude);
+    if (!nearest || distance < nearest.distanceKm) nearest = { city, distanceKm: distance };
+  }
+
+  return nearest;
+};
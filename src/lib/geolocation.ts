@@ -1,9 +1,15 @@
+import { getSeasonalMonthTable, interpolateMonthly, Season } from './climate';
+import { lookupTimezone } from './timezone';
+
 export interface LocationData {
   latitude: number;
   longitude: number;
   city?: string;
   country?: string;
-  timezone?: string;
+  countryCode?: string; // ISO 3166-1 alpha-2
+  region?: string;      // State, province or territory
+  regionCode?: string;  // ISO 3166-2, e.g. 'US-CA'
+  timezone?: string;    // IANA zone at the coordinates, not the viewer's
   accuracy?: number;
 }
 
@@ -70,6 +76,35 @@ const getGeolocationErrorMessage = (code: number): string => {
   }
 };
 
+// Location for manually entered coordinates, named by reverse geocoding where available
+export const getLocationFromCoordinates = async (latitude: number, longitude: number): Promise<LocationData> => ({
+  latitude,
+  longitude,
+  ...(await reverseGeocode(latitude, longitude))
+});
+
+// Parses "40.71, -74.01" or "40.71 N 74.01 W"; returns undefined when out of range or malformed
+export const parseCoordinates = (input: string): { latitude: number; longitude: number } | undefined => {
+  const match = input.trim().match(/^(-?\d+(?:\.\d+)?)\s*°?\s*([NS])?\s*[,;\s]\s*(-?\d+(?:\.\d+)?)\s*°?\s*([EW])?$/i);
+  if (!match) return undefined;
+
+  const latitude = parseFloat(match[1]) * (match[2]?.toUpperCase() === 'S' ? -1 : 1);
+  const longitude = parseFloat(match[3]) * (match[4]?.toUpperCase() === 'W' ? -1 : 1);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+
+  return { latitude, longitude };
+};
+
+export const getLocationKey = (location: LocationData): string =>
+  `${location.latitude.toFixed(4)},${location.longitude.toFixed(4)}`;
+
+export const isSameLocation = (a: LocationData, b: LocationData): boolean =>
+  getLocationKey(a) === getLocationKey(b);
+
+export const getLocationLabel = (location: LocationData): string =>
+  [location.city, location.country].filter(Boolean).join(', ') ||
+  `${location.latitude.toFixed(2)}, ${location.longitude.toFixed(2)}`;
+
 const reverseGeocode = async (latitude: number, longitude: number) => {
   try {
     const response = await fetch(
@@ -85,14 +120,17 @@ const reverseGeocode = async (latitude: number, longitude: number) => {
     return {
       city: data.city || data.locality || 'Unknown',
       country: data.countryName || 'Unknown',
-      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      countryCode: data.countryCode || undefined,
+      region: data.principalSubdivision || undefined,
+      regionCode: data.principalSubdivisionCode || undefined,
+      timezone: await lookupTimezone(latitude, longitude)
     };
   } catch (error) {
     console.warn('Reverse geocoding failed:', error);
     return {
       city: 'Unknown',
       country: 'Unknown',
-      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      timezone: await lookupTimezone(latitude, longitude)
     };
   }
 };
@@ -101,17 +139,28 @@ export const calculateDistanceFromEquator = (latitude: number): number => {
   return Math.abs(latitude);
 };
 
-export const isNorthernHemisphere = (latitude: number): boolean => {
-  return latitude > 0;
+// UV relative to the yearly mean in each season: wet-season cloud cuts it in the tropics, and the sun
+// stays below the horizon through the polar night
+const UV_SEASON_MULTIPLIERS: Record<Season, number> = {
+  summer: 1.3,
+  spring: 1,
+  autumn: 1,
+  winter: 0.7,
+  wet: 0.9,
+  dry: 1.1,
+  'midnight-sun': 1.3,
+  'polar-night': 0
 };
 
+// month is a calendar month (1-12), fractional positions allowed
 export const calculateUVIntensityByLatitude = (latitude: number, month: number): number => {
   const distanceFromEquator = calculateDistanceFromEquator(latitude);
   const baseIntensity = Math.max(0, 10 - (distanceFromEquator / 90) * 10);
   
-  const seasonalMultiplier = isNorthernHemisphere(latitude) 
-    ? Math.cos(((month - 6) * Math.PI) / 6) * 0.3 + 1
-    : Math.cos(((month - 12) * Math.PI) / 6) * 0.3 + 1;
+  const seasonalMultiplier = interpolateMonthly(
+    getSeasonalMonthTable(latitude, ({ season }) => UV_SEASON_MULTIPLIERS[season]),
+    month
+  );
   
   return Math.max(0, Math.min(11, baseIntensity * seasonalMultiplier));
 };
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import lifeExpectancyData from './data/life-expectancy.json';
+import { getProjectionFallbackNotice, projectLifeExpectancy } from './life-expectancy';
+
+const NORWAY = { latitude: 59.91, longitude: 10.75, city: 'Oslo', country: 'Norway', countryCode: 'NO' };
+const JAPAN = { latitude: 35.68, longitude: 139.69, city: 'Tokyo', country: 'Japan', countryCode: 'JP' };
+const OPEN_SEA = { latitude: 0, longitude: -150 };
+
+const { dataYear, world } = lifeExpectancyData;
+const inDataYear = new Date(dataYear, 5, 15, 12);
+const yearsLater = (years: number) => new Date(dataYear + years, 5, 15, 12);
+
+describe('projectLifeExpectancy', () => {
+  it('uses the table value for the chosen sex, and both sexes when unspecified', () => {
+    const norway = lifeExpectancyData.countries.NO;
+    expect(projectLifeExpectancy(NORWAY, inDataYear, 'female').periodYears).toBe(norway.female);
+    expect(projectLifeExpectancy(NORWAY, inDataYear, 'male').periodYears).toBe(norway.male);
+    expect(projectLifeExpectancy(NORWAY, inDataYear).periodYears).toBe(norway.both);
+    expect(projectLifeExpectancy(NORWAY, inDataYear).source).toBe('country');
+  });
+
+  it('adds a cohort gain for births after the data year, faster where life expectancy is lower', () => {
+    const gain = (location: typeof NORWAY | typeof OPEN_SEA) => {
+      const projection = projectLifeExpectancy(location, yearsLater(10));
+      return projection.years - projection.periodYears;
+    };
+
+    expect(projectLifeExpectancy(NORWAY, inDataYear).years).toBe(lifeExpectancyData.countries.NO.both);
+    expect(gain(NORWAY)).toBeGreaterThan(0);
+    expect(projectLifeExpectancy(NORWAY, yearsLater(-10)).years).toBeLessThan(lifeExpectancyData.countries.NO.both);
+    expect(gain(OPEN_SEA)).toBeGreaterThan(gain(JAPAN));
+  });
+
+  it('falls back to the world average outside the table, and says so', () => {
+    const projection = projectLifeExpectancy(OPEN_SEA, inDataYear, 'female');
+    expect(projection).toMatchObject({ source: 'world', countryName: 'World average', periodYears: world.female });
+    expect(projection.countryCode).toBeUndefined();
+    expect(getProjectionFallbackNotice(projection, OPEN_SEA)).toContain('world average');
+
+    const unknown = { ...NORWAY, country: 'Atlantis', countryCode: 'XX' };
+    expect(projectLifeExpectancy(unknown, inDataYear).source).toBe('world');
+    expect(getProjectionFallbackNotice(projectLifeExpectancy(NORWAY, inDataYear), NORWAY)).toBeUndefined();
+  });
+});
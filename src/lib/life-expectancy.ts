@@ -0,0 +1,79 @@
+import { getYear } from 'date-fns';
+import { LocationData } from './geolocation';
+import { resolveCountryCode } from './school-entry';
+import lifeExpectancyData from './data/life-expectancy.json';
+
+export type ProjectionSex = 'female' | 'male' | 'unspecified';
+
+export interface LifeExpectancyProjection {
+  years: number;         // Projected for the birth year
+  periodYears: number;   // Table value for the data year
+  dataYear: number;
+  birthYear: number;
+  sex: ProjectionSex;
+  countryCode?: string;
+  countryName: string;
+  source: 'country' | 'world';
+}
+
+interface LifeExpectancyEntry {
+  both: number;
+  female: number;
+  male: number;
+}
+
+interface CountryLifeExpectancyEntry extends LifeExpectancyEntry {
+  name: string;
+}
+
+const COUNTRIES = lifeExpectancyData.countries as Record<string, CountryLifeExpectancyEntry>;
+
+export const LIFE_EXPECTANCY_DATASET_VERSION = lifeExpectancyData.version;
+
+const DATA_YEAR = lifeExpectancyData.dataYear;
+
+// Annual gain shrinks as life expectancy rises: fast catch-up below ~70 years, slow gains above ~85
+const getAnnualGain = (periodYears: number): number =>
+  Math.max(0.08, Math.min(0.3, (90 - periodYears) * 0.015));
+
+const getEntryValue = (entry: LifeExpectancyEntry, sex: ProjectionSex): number =>
+  sex === 'unspecified' ? entry.both : entry[sex];
+
+// Period life expectancy at birth for the location's country, carried forward to the birth year
+// along the improvement trend. Falls back to the world average for countries outside the table.
+export const projectLifeExpectancy = (
+  location: LocationData,
+  birthDate: Date,
+  sex: ProjectionSex = 'unspecified'
+): LifeExpectancyProjection => {
+  const code = location.countryCode?.toUpperCase() ?? resolveCountryCode(location.country);
+  const country = code ? COUNTRIES[code] : undefined;
+  const periodYears = getEntryValue(country ?? lifeExpectancyData.world, sex);
+  const birthYear = getYear(birthDate);
+  const years = periodYears + getAnnualGain(periodYears) * (birthYear - DATA_YEAR);
+
+  return {
+    years: Math.round(years * 10) / 10,
+    periodYears,
+    dataYear: DATA_YEAR,
+    birthYear,
+    sex,
+    countryCode: country ? code : undefined,
+    countryName: country?.name ?? 'World average',
+    source: country ? 'country' : 'world'
+  };
+};
+
+export const formatProjectionBasis = (projection: LifeExpectancyProjection): string => {
+  const sex = projection.sex === 'unspecified' ? 'all sexes' : projection.sex;
+  return `${projection.countryName}, ${sex}, ${projection.birthYear} births (${projection.periodYears} years in ${projection.dataYear})`;
+};
+
+// Shown with any absolute lifespan built on the world average, so it is not read as a local figure
+export const getProjectionFallbackNotice = (
+  projection: LifeExpectancyProjection,
+  location: LocationData
+): string | undefined =>
+  projection.source === 'world'
+    ? `No life expectancy data for ${location.country ?? 'this location'}: lifespans use the world average`
+    : undefined;
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+import { analyzeTimingRange } from './optimal-timing';
+import {
+  buildComparisonExport,
+  compareLocations,
+  COMPARISON_FORMAT,
+  COMPARISON_SCHEMA_VERSION
+} from './location-comparison';
+
+const LOCATIONS = [
+  { latitude: 48.85, longitude: 2.35, city: 'Paris', country: 'France', countryCode: 'FR' },
+  { latitude: -33.87, longitude: 151.21, city: 'Sydney', country: 'Australia', countryCode: 'AU' }
+];
+const CENTER_DATE = new Date(2026, 5, 15, 12);
+
+describe('compareLocations', () => {
+  it('analyzes each location through the given range analyzer with plain options', async () => {
+    const analyzeRange = vi.fn(analyzeTimingRange);
+    const entries = await compareLocations(LOCATIONS, CENTER_DATE, 6, { seed: 3, analyzeRange });
+
+    expect(analyzeRange).toHaveBeenCalledTimes(2);
+    expect(analyzeRange.mock.calls[0][3]).toEqual({ seed: 3, profile: undefined, resolution: 'monthly' });
+    expect(entries.map(entry => entry.analysis.series.length)).toEqual([13, 13]);
+    expect(entries[0].bestMonth.overallScore).toBe(Math.max(...entries[0].analysis.series.map(result => result.overallScore)));
+  });
+});
+
+describe('buildComparisonExport', () => {
+  it('stamps the format and schema version', async () => {
+    const exported = buildComparisonExport(await compareLocations(LOCATIONS, CENTER_DATE, 6), CENTER_DATE);
+
+    expect(exported.format).toBe(COMPARISON_FORMAT);
+    expect(exported.schemaVersion).toBe(COMPARISON_SCHEMA_VERSION);
+    expect(exported.centerDate).toBe('2026-06-15');
+    expect(exported.locations.map(location => location.location.label)).toEqual(['Paris, France', 'Sydney, Australia']);
+  });
+});
@@ -0,0 +1,99 @@
+import { getLocationLabel, LocationData } from './geolocation';
+import { formatCivilDate } from './civil-date';
+import {
+  analyzeTimingRange,
+  OptimalTimingResult,
+  RangeAnalysisOptions,
+  TimingAnalysis,
+  TimingOptions
+} from './optimal-timing';
+
+export const MIN_COMPARISON_LOCATIONS = 2;
+export const MAX_COMPARISON_LOCATIONS = 5;
+
+// Comparison files (.json) written by "Export Comparison".
+//
+// Layout (schemaVersion 1):
+//   format, schemaVersion  identify the file; readers should reject other formats and newer schema versions
+//   exportedAt             ISO 8601 timestamp
+//   centerDate             civil date 'yyyy-MM-dd' the monthly series are centred on
+//   model, scoringProfile  engine and dataset versions plus seed, and the profile the scores were weighted with
+//   locations              per location: place, selected-date score and risk factors, best month, monthly scores
+//
+// Any change that would break an older reader bumps COMPARISON_SCHEMA_VERSION.
+//   1  initial layout
+export const COMPARISON_FORMAT = 'birth-timing-comparison';
+export const COMPARISON_SCHEMA_VERSION = 1;
+
+export interface CompareOptions extends TimingOptions {
+  // Analyzes one location; pass useTimingWorker().analyzeRange to keep the work off the main thread
+  analyzeRange?: (
+    location: LocationData,
+    centerDate: Date,
+    rangeMonths: number,
+    options: RangeAnalysisOptions
+  ) => Promise<TimingAnalysis>;
+}
+
+export interface LocationComparisonEntry {
+  location: LocationData;
+  analysis: TimingAnalysis;        // Monthly series around the shared center date
+  bestMonth: OptimalTimingResult;  // Highest-scoring month in the series
+}
+
+// Monthly analysis for each location over the same date range, so series line up index by index
+export const compareLocations = async (
+  locations: LocationData[],
+  centerDate: Date,
+  rangeMonths: number = 12,
+  options: CompareOptions = {}
+): Promise<LocationComparisonEntry[]> => {
+  const analyzeRange = options.analyzeRange ?? analyzeTimingRange;
+  // Only the timing options, since the worker cannot receive functions
+  const rangeOptions: RangeAnalysisOptions = { seed: options.seed, profile: options.profile, resolution: 'monthly' };
+
+  return Promise.all(locations.map(async location => {
+    const analysis = await analyzeRange(location, centerDate, rangeMonths, rangeOptions);
+    const bestMonth = analysis.series.reduce((best, result) => result.overallScore > best.overallScore ? result : best);
+    return { location, analysis, bestMonth };
+  }));
+};
+
+// Plain JSON for download in the layout above
+export const buildComparisonExport = (entries: LocationComparisonEntry[], centerDate: Date) => ({
+  format: COMPARISON_FORMAT,
+  schemaVersion: COMPARISON_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  centerDate: formatCivilDate(centerDate),
+  model: entries[0]?.analysis.currentTiming.model,
+  scoringProfile: entries[0]?.analysis.currentTiming.scoringProfile,
+  locations: entries.map(({ location, analysis, bestMonth }) => ({
+    location: {
+      label: getLocationLabel(location),
+      city: location.city,
+      country: location.country,
+      countryCode: location.countryCode,
+      coordinates: `${location.latitude}, ${location.longitude}`,
+      timezone: location.timezone
+    },
+    selectedDate: {
+      overallScore: analysis.currentTiming.overallScore,
+      lifeExpectancyDelta: analysis.currentTiming.lifeExpectancyDelta,
+      riskFactors: analysis.currentTiming.riskFactors.map(factor => ({
+        name: factor.name,
+        category: factor.category,
+        impact: factor.impact,
+        severity: factor.severity
+      }))
+    },
+    bestMonth: {
+      date: formatCivilDate(bestMonth.birthDate),
+      overallScore: bestMonth.overallScore
+    },
+    monthlyScores: analysis.series.map(result => ({
+      date: formatCivilDate(result.birthDate),
+      overallScore: result.overallScore,
+      lifeExpectancyDelta: result.lifeExpectancyDelta
+    }))
+  }))
+});
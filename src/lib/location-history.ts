@@ -0,0 +1,68 @@
+import { isSameLocation, LocationData } from './geolocation';
+
+export interface LocationHistory {
+  current?: LocationData;   // Last location used by the calculator
+  recent: LocationData[];   // Most recent first
+  saved: LocationData[];
+}
+
+export const MAX_RECENT_LOCATIONS = 5;
+
+export const EMPTY_LOCATION_HISTORY: LocationHistory = {
+  recent: [],
+  saved: []
+};
+
+const STORAGE_KEY = 'birth-timing-location-history';
+
+const isLocation = (value: unknown): value is LocationData =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as LocationData).latitude === 'number' &&
+  typeof (value as LocationData).longitude === 'number';
+
+export const loadLocationHistory = (): LocationHistory => {
+  if (typeof window === 'undefined') return EMPTY_LOCATION_HISTORY;
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return EMPTY_LOCATION_HISTORY;
+
+    const parsed = JSON.parse(stored) as Partial<LocationHistory>;
+    return {
+      current: isLocation(parsed.current) ? parsed.current : undefined,
+      recent: Array.isArray(parsed.recent) ? parsed.recent.filter(isLocation).slice(0, MAX_RECENT_LOCATIONS) : [],
+      saved: Array.isArray(parsed.saved) ? parsed.saved.filter(isLocation) : []
+    };
+  } catch (error) {
+    console.warn('Failed to load location history:', error);
+    return EMPTY_LOCATION_HISTORY;
+  }
+};
+
+export const saveLocationHistory = (history: LocationHistory): void => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    // Quota exceeded or storage disabled (e.g. private browsing): keep the in-memory history
+    console.warn('Failed to save location history:', error);
+  }
+};
+
+// Makes the location current and moves it to the front of the recent list
+export const recordLocation = (history: LocationHistory, location: LocationData): LocationHistory => ({
+  ...history,
+  current: location,
+  recent: [location, ...history.recent.filter(recent => !isSameLocation(recent, location))].slice(0, MAX_RECENT_LOCATIONS)
+});
+
+export const isSavedLocation = (history: LocationHistory, location: LocationData): boolean =>
+  history.saved.some(saved => isSameLocation(saved, location));
+
+export const toggleSavedLocation = (history: LocationHistory, location: LocationData): LocationHistory => ({
+  ...history,
+  saved: isSavedLocation(history, location)
+    ? history.saved.filter(saved => !isSameLocation(saved, location))
+    : [...history.saved, location]
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { calculateOptimalTiming } from './optimal-timing';
+import { formatCivilDate, parseCivilDate } from './civil-date';
+import { formatRecommendation, getRecommendationScoreCategory } from './recommendations';
+import { SCORING_PROFILES } from './scoring-profiles';
+
+// High latitude near solar maximum, so solar and geographic advice both fire under the default profile
+const TROMSO = { latitude: 69.65, longitude: 18.96, city: 'Tromsø', country: 'Norway', countryCode: 'NO' };
+const BIRTH_DATE = new Date(2024, 11, 15);
+
+describe('profile category filtering', () => {
+  it('keeps advice from every category under the default profile', async () => {
+    const result = await calculateOptimalTiming(TROMSO, BIRTH_DATE);
+    const categories = new Set(result.recommendations.map(rec => getRecommendationScoreCategory(rec.id)));
+    expect(categories).toContain('solar');
+    expect(categories).toContain('geographic');
+  });
+
+  it('drops risk factors and recommendations from excluded categories', async () => {
+    const profile = SCORING_PROFILES['seasonal-only'];
+    const result = await calculateOptimalTiming(TROMSO, BIRTH_DATE, 24, { profile });
+
+    expect(result.riskFactors.every(factor => profile.includedCategories.includes(factor.category))).toBe(true);
+    for (const recommendation of result.recommendations) {
+      const category = getRecommendationScoreCategory(recommendation.id);
+      if (category) expect(profile.includedCategories).toContain(category);
+    }
+    expect(result.recommendations.length).toBeGreaterThan(0);
+  });
+});
+
+describe('recommendation months', () => {
+  it('carries the birth month as a number and names it in the reader\'s locale', async () => {
+    const result = await calculateOptimalTiming(TROMSO, BIRTH_DATE);
+    const recommendation = result.recommendations.find(rec => rec.params.month !== undefined);
+
+    expect(recommendation?.params.month).toBe(12);
+    expect(formatRecommendation(recommendation!)).toContain('December');
+    expect(formatRecommendation(recommendation!, {}, 'de')).toContain('Dezember');
+  });
+});
+
+describe('viewer time zone', () => {
+  const SYDNEY = { latitude: -33.87, longitude: 151.21, city: 'Sydney', country: 'Australia', countryCode: 'AU', timezone: 'Australia/Sydney' };
+  // Both sides of the date line, so the same instant falls on different days in some of them
+  const VIEWER_ZONES = ['UTC', 'America/Los_Angeles', 'Australia/Sydney', 'Pacific/Kiritimati', 'Pacific/Pago_Pago'];
+  const originalZone = process.env.TZ;
+
+  afterEach(() => {
+    if (originalZone === undefined) delete process.env.TZ;
+    else process.env.TZ = originalZone;
+  });
+
+  it('gives a Sydney birth the same month and scores in every viewer zone', async () => {
+    const offsets = new Set<number>();
+    const results = [];
+
+    for (const zone of VIEWER_ZONES) {
+      process.env.TZ = zone;
+      offsets.add(new Date(2026, 11, 1).getTimezoneOffset());
+
+      const result = await calculateOptimalTiming(SYDNEY, parseCivilDate('2026-12-01')!);
+      results.push({
+        birthDate: formatCivilDate(result.birthDate),
+        month: result.birthDate.getMonth(),
+        overallScore: result.overallScore,
+        categoryScores: result.categoryScores,
+        lifeExpectancyDelta: result.lifeExpectancyDelta,
+        riskFactors: result.riskFactors.map(({ name, impact }) => ({ name, impact }))
+      });
+    }
+
+    // The zone switch took effect, so the comparison below is not vacuous
+    expect(offsets.size).toBe(VIEWER_ZONES.length);
+    expect(results[0]).toMatchObject({ birthDate: '2026-12-01', month: 11 });
+    for (const result of results) expect(result).toEqual(results[0]);
+  });
+});
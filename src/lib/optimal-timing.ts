@@ -1,21 +1,56 @@
-import { addMonths, subMonths, format, getYear, differenceInYears } from 'date-fns';
+import { addDays, addMonths, addWeeks, subMonths, format, getMonth, getYear, differenceInYears } from 'date-fns';
 import { LocationData } from './geolocation';
-import { calculateSolarActivityData, getSolarRiskLevel, calculateMentalHealthRisk } from './solar-cycle';
-import { calculateSeasonalRisk, getSeasonalRecommendations } from './seasonal-risk';
+import {
+  getSolarRiskLevel,
+  calculateMentalHealthRisk,
+  DEFAULT_SOLAR_SEED,
+  SOLAR_MODEL_VERSION,
+  SUNSPOT_DATASET_VERSION,
+  SolarActivityData,
+  SolarDataSource,
+  ValueRange
+} from './solar-cycle';
+import { fetchSolarActivityData, getSolarDataProvider, SolarProviderId } from './solar-data-provider';
+import { atCivilNoon } from './civil-date';
+import { calculateSeasonalRisk, DISEASE_RISK_EVIDENCE, getSeasonalRecommendations } from './seasonal-risk';
+import { calculateEnvironmentalRisk, ClimateRegionId, ENVIRONMENTAL_DATASET_VERSION } from './environmental-risk';
+import { SCHOOL_ENTRY_DATASET_VERSION } from './school-entry';
+import { LIFE_EXPECTANCY_DATASET_VERSION, LifeExpectancyProjection, projectLifeExpectancy } from './life-expectancy';
+import {
+  createRecommendation,
+  getRecommendationScoreCategory,
+  prioritizeRecommendations,
+  Recommendation
+} from './recommendations';
+import { Citation, EvidenceId, getCitationsForEvidence } from './evidence';
+import {
+  ScoreCategory,
+  ScoringProfile,
+  DEFAULT_SCORING_PROFILE,
+  getEffectiveWeights,
+  getSeverity
+} from './scoring-profiles';
 
 export interface OptimalTimingResult {
   birthDate: Date;
+  location: LocationData;
   overallScore: number;
   lifeExpectancyDelta: number;
+  lifeExpectancyRange: ValueRange; // Forecast uncertainty band around lifeExpectancyDelta
+  baselineLifeExpectancy: number;  // Years; lifeExpectancyDelta is relative to this
+  lifeExpectancyProjection: LifeExpectancyProjection; // Where baselineLifeExpectancy comes from
+  categoryScores: CategoryScores;  // 0-100 subscores before weighting
+  categoryWeights: Record<ScoreCategory, number>; // Effective weights applied, summing to 1
   confidenceLevel: 'LOW' | 'MEDIUM' | 'HIGH';
   riskFactors: RiskFactor[];
-  recommendations: string[];
+  recommendations: Recommendation[]; // Ordered by priority, critical first
   solarData: {
     sunspotNumber: number;
     solarRisk: 'LOW' | 'MEDIUM' | 'HIGH';
     lifespanImpact: number;
     mentalHealthMultiplier: number;
     uvRadiationLevel: number;
+    dataSource: SolarDataSource;
   };
   seasonalData: {
     vitaminDScore: number;
@@ -23,6 +58,58 @@ export interface OptimalTimingResult {
     relativeAgeAdvantage: number;
     overallSeasonalScore: number;
   };
+  environmentalData: {
+    region: ClimateRegionId;
+    regionName: string;
+    pm25: number;
+    pollenIndex: number;
+    heatWaveDays: number;
+    coldStressDays: number;
+    environmentalScore: number;
+  };
+  model: ModelInfo;
+  scoringProfile: ScoringProfile;
+}
+
+// Everything needed to regenerate a result exactly from a saved export
+export interface ModelInfo {
+  version: string;
+  seed: number;
+  solarProvider: SolarProviderId;
+  datasetVersion: string;
+  environmentalDatasetVersion: string;
+  schoolEntryDatasetVersion: string;
+  lifeExpectancyDatasetVersion: string;
+}
+
+// Versions the current engine stamps on every result
+export const getModelInfo = (seed: number = DEFAULT_SOLAR_SEED): ModelInfo => ({
+  version: SOLAR_MODEL_VERSION,
+  seed,
+  solarProvider: getSolarDataProvider().id,
+  datasetVersion: SUNSPOT_DATASET_VERSION,
+  environmentalDatasetVersion: ENVIRONMENTAL_DATASET_VERSION,
+  schoolEntryDatasetVersion: SCHOOL_ENTRY_DATASET_VERSION,
+  lifeExpectancyDatasetVersion: LIFE_EXPECTANCY_DATASET_VERSION
+});
+
+export interface TimingOptions {
+  seed?: number;
+  profile?: ScoringProfile;
+}
+
+export type AnalysisResolution = 'monthly' | 'weekly' | 'daily';
+
+export interface RangeAnalysisOptions extends TimingOptions {
+  resolution?: AnalysisResolution;
+}
+
+// Per-category scores (0-100, higher is better) before profile weighting
+export interface CategoryScores {
+  solar: number;
+  seasonal: number;
+  geographic: number;
+  environmental: number;
 }
 
 export interface RiskFactor {
@@ -31,9 +118,13 @@ export interface RiskFactor {
   impact: number; // -100 to +100
   severity: 'LOW' | 'MEDIUM' | 'HIGH';
   description: string;
+  evidence: EvidenceId; // Registry entry behind the impact value
+  calculation: string;  // How the impact value was derived from this date's inputs
 }
 
 export interface TimingAnalysis {
+  resolution: AnalysisResolution;
+  series: OptimalTimingResult[]; // Every evaluated date in chronological order
   optimalWindows: OptimalTimingResult[];
   currentTiming: OptimalTimingResult;
   bestOverallMonth: number;
@@ -41,38 +132,73 @@ export interface TimingAnalysis {
   yearlyTrend: 'improving' | 'stable' | 'declining';
 }
 
-const WEIGHTS = {
-  solar: 0.4,       // Solar cycle impact (most significant)
-  seasonal: 0.35,   // Seasonal birth effects
-  geographic: 0.15, // UV/latitude effects  
-  environmental: 0.1 // Air quality, etc.
+// Solar activity comes from the provider chosen with NEXT_PUBLIC_SOLAR_DATA_PROVIDER (bundled dataset by default).
+// It depends only on the date and seed, so the provider cache shares it across locations and repeated ranges.
+export const getSolarActivity = (date: Date, seed: number): Promise<SolarActivityData> =>
+  fetchSolarActivityData(date, seed);
+
+export const calculateCategoryScores = (
+  solarLifespanImpact: number,
+  seasonalScore: number,
+  latitude: number,
+  environmentalScore: number
+): CategoryScores => ({
+  solar: Math.max(0, 100 - Math.abs(solarLifespanImpact) * 15),
+  seasonal: seasonalScore,
+  geographic: Math.max(0, 100 - Math.abs(latitude)),
+  environmental: environmentalScore
+});
+
+export const combineCategoryScores = (scores: CategoryScores, profile: ScoringProfile): number => {
+  const weights = getEffectiveWeights(profile);
+  return Math.round(
+    (scores.solar * weights.solar) +
+    (scores.seasonal * weights.seasonal) +
+    (scores.geographic * weights.geographic) +
+    (scores.environmental * weights.environmental)
+  );
 };
 
+// birthDate is a civil date at the location: only its calendar day is used, so any time of day
+// (or the viewer's time zone) gives the same result
 export const calculateOptimalTiming = async (
   location: LocationData, 
-  targetDate: Date,
-  analysisRange: number = 24 // months before/after
+  birthDate: Date,
+  analysisRange: number = 24, // months before/after
+  options: TimingOptions = {}
 ): Promise<OptimalTimingResult> => {
+  const targetDate = atCivilNoon(birthDate);
+  const seed = options.seed ?? DEFAULT_SOLAR_SEED;
+  const profile = options.profile ?? DEFAULT_SCORING_PROFILE;
+  const { thresholds } = profile;
   
   // Get solar activity data
-  const solarActivity = calculateSolarActivityData(targetDate);
+  const solarActivity = await getSolarActivity(targetDate, seed);
   const solarRisk = getSolarRiskLevel(solarActivity.sunspotNumber);
   const mentalHealthMultiplier = calculateMentalHealthRisk(solarActivity.sunspotNumber);
   
   // Get seasonal risk data
   const seasonalRisk = calculateSeasonalRisk(targetDate, location);
   
+  // Get environmental exposure data
+  const environmentalRisk = calculateEnvironmentalRisk(targetDate, location);
+  
+  // Absolute lifespan baseline for the location's country
+  const lifeExpectancyProjection = projectLifeExpectancy(location, targetDate, profile.projectionSex);
+  
   // Calculate individual risk factors with guaranteed generation
   const riskFactors: RiskFactor[] = [];
   
   // Solar factors - always include one
-  if (solarActivity.lifespanImpact < -1) {
+  if (solarActivity.lifespanImpact < -thresholds.solarActivity.medium) {
     riskFactors.push({
       category: 'solar',
       name: 'Solar Activity Risk',
       impact: -Math.round(Math.abs(solarActivity.lifespanImpact) * 12), // -12 to -48
-      severity: solarActivity.lifespanImpact < -3 ? 'HIGH' : 'MEDIUM',
-      description: `High solar activity during birth period affects development`
+      severity: getSeverity(solarActivity.lifespanImpact, thresholds.solarActivity),
+      description: `High solar activity during birth period affects development`,
+      evidence: 'solar-cycle-lifespan',
+      calculation: `${solarActivity.sunspotNumber} sunspots give a ${solarActivity.lifespanImpact} year lifespan estimate; 12 points per year of reduced lifespan`
     });
   } else if (solarActivity.lifespanImpact > 0.5) {
     riskFactors.push({
@@ -80,7 +206,9 @@ export const calculateOptimalTiming = async (
       name: 'Solar Minimum Benefit',
       impact: Math.round(solarActivity.lifespanImpact * 15), // +7 to +37
       severity: 'LOW',
-      description: 'Low solar activity provides optimal conditions'
+      description: 'Low solar activity provides optimal conditions',
+      evidence: 'solar-cycle-lifespan',
+      calculation: `${solarActivity.sunspotNumber} sunspots give a +${solarActivity.lifespanImpact} year lifespan estimate; 15 points per year gained`
     });
   } else {
     riskFactors.push({
@@ -88,7 +216,9 @@ export const calculateOptimalTiming = async (
       name: 'Solar Activity Neutral',
       impact: Math.round(solarActivity.lifespanImpact * 5), // -5 to +5
       severity: 'LOW',
-      description: 'Moderate solar activity with minimal impact'
+      description: 'Moderate solar activity with minimal impact',
+      evidence: 'solar-cycle-lifespan',
+      calculation: `${solarActivity.sunspotNumber} sunspots give a ${solarActivity.lifespanImpact} year lifespan estimate; 5 points per year`
     });
   }
   
@@ -99,10 +229,12 @@ export const calculateOptimalTiming = async (
       category: 'solar',
       name: uvImpact > 0 ? 'UV Exposure Risk' : 'UV Protection Benefit',
       impact: uvImpact > 0 ? -Math.abs(uvImpact) : Math.abs(uvImpact),
-      severity: Math.abs(uvImpact) > 15 ? 'HIGH' : Math.abs(uvImpact) > 8 ? 'MEDIUM' : 'LOW',
+      severity: getSeverity(uvImpact, thresholds.uvExposure),
       description: uvImpact > 0 
         ? 'Elevated UV radiation increases health risks'
-        : 'Lower UV exposure reduces radiation risks'
+        : 'Lower UV exposure reduces radiation risks',
+      evidence: 'uv-exposure',
+      calculation: `UV index ${solarActivity.uvRadiationLevel.toFixed(1)} vs. a reference of 6; 5 points per unit`
     });
   }
   
@@ -112,10 +244,12 @@ export const calculateOptimalTiming = async (
     category: 'seasonal',
     name: vitaminDImpact > 0 ? 'Vitamin D Advantage' : 'Vitamin D Deficiency Risk',
     impact: vitaminDImpact,
-    severity: Math.abs(vitaminDImpact) > 15 ? 'HIGH' : Math.abs(vitaminDImpact) > 8 ? 'MEDIUM' : 'LOW',
+    severity: getSeverity(vitaminDImpact, thresholds.vitaminD),
     description: vitaminDImpact > 0 
       ? 'Optimal vitamin D synthesis during pregnancy'
-      : 'Limited vitamin D synthesis may affect development'
+      : 'Limited vitamin D synthesis may affect development',
+    evidence: 'vitamin-d-synthesis',
+    calculation: `Vitamin D synthesis score ${seasonalRisk.vitaminDScore}/100 vs. a reference of 60; 0.5 points per point`
   });
   
   // Infection risk - always evaluate
@@ -125,10 +259,12 @@ export const calculateOptimalTiming = async (
       category: 'seasonal',
       name: infectionImpact > 0 ? 'Infection Season Risk' : 'Low Infection Period',
       impact: infectionImpact > 0 ? -Math.abs(infectionImpact) : Math.abs(infectionImpact),
-      severity: Math.abs(infectionImpact) > 18 ? 'HIGH' : Math.abs(infectionImpact) > 10 ? 'MEDIUM' : 'LOW',
+      severity: getSeverity(infectionImpact, thresholds.infection),
       description: infectionImpact > 0
         ? 'Higher infection rates during birth period'
-        : 'Lower infection risk provides health benefits'
+        : 'Lower infection risk provides health benefits',
+      evidence: 'infection-season',
+      calculation: `Infection risk ${seasonalRisk.infectiousRisk}/100 vs. a reference of 50; 0.6 points per point`
     });
   }
   
@@ -139,7 +275,9 @@ export const calculateOptimalTiming = async (
       name: 'School Age Advantage',
       impact: Math.round((seasonalRisk.relativeAgeAdvantage - 50) * 0.8),
       severity: 'LOW',
-      description: 'Favorable birth timing for academic year'
+      description: 'Favorable birth timing for academic year',
+      evidence: 'relative-age',
+      calculation: `Relative age advantage ${seasonalRisk.relativeAgeAdvantage}/100 vs. a reference of 50; 0.8 points per point`
     });
   }
   
@@ -150,183 +288,250 @@ export const calculateOptimalTiming = async (
     category: 'geographic',
     name: latitudeImpact > 0 ? 'Favorable Latitude' : 'Latitude Challenge',
     impact: latitudeImpact,
-    severity: Math.abs(latitudeImpact) > 15 ? 'MEDIUM' : 'LOW',
+    severity: getSeverity(latitudeImpact, thresholds.latitude),
     description: latitudeImpact > 0
       ? 'Optimal latitude for balanced seasonal exposure'
-      : 'Extreme latitude affects seasonal patterns'
+      : 'Extreme latitude affects seasonal patterns',
+    evidence: 'latitude',
+    calculation: `${distanceFromEquator.toFixed(1)}° from the equator vs. a reference of 35°; 0.6 points per degree`
   });
   
-  // Environmental factors based on season
-  const month = targetDate.getMonth();
-  const season = month >= 3 && month <= 5 ? 'spring' :
-                month >= 6 && month <= 8 ? 'summer' :
-                month >= 9 && month <= 11 ? 'fall' : 'winter';
-  
-  // Season-specific environmental impact
-  let envImpact = 0;
-  let envName = '';
-  let envDesc = '';
-  
-  switch(season) {
-    case 'spring':
-      envImpact = -12; // Allergy season
-      envName = 'Spring Allergen Exposure';
-      envDesc = 'High pollen counts during birth period';
-      break;
-    case 'summer':
-      envImpact = 8; // Good air quality
-      envName = 'Summer Air Quality';
-      envDesc = 'Generally better air quality and outdoor conditions';
-      break;
-    case 'fall':
-      envImpact = 5; // Moderate conditions
-      envName = 'Fall Transition Period';
-      envDesc = 'Moderate environmental conditions';
-      break;
-    case 'winter':
-      envImpact = -18; // Poor air quality, flu season
-      envName = 'Winter Environmental Risk';
-      envDesc = 'Indoor pollution and respiratory illness risk';
-      break;
+  // Environmental factors from regional climatology over the birth and neonatal months
+  if (environmentalRisk.pm25 > 15) {
+    const pm25Impact = -Math.round((environmentalRisk.pm25 - 10) * 0.4);
+    riskFactors.push({
+      category: 'environmental',
+      name: 'Air Pollution Exposure',
+      impact: Math.max(-40, pm25Impact),
+      severity: getSeverity(pm25Impact, thresholds.environmental),
+      description: `Average PM2.5 of ${environmentalRisk.pm25} µg/m³ during birth period`,
+      evidence: 'air-pollution',
+      calculation: `PM2.5 ${environmentalRisk.pm25} µg/m³ vs. a reference of 10; 0.4 points per µg/m³, capped at 40`
+    });
   }
   
-  riskFactors.push({
-    category: 'environmental',
-    name: envName,
-    impact: envImpact,
-    severity: Math.abs(envImpact) > 15 ? 'MEDIUM' : 'LOW',
-    description: envDesc
-  });
+  if (environmentalRisk.pollenIndex >= 2) {
+    const pollenImpact = -Math.round(environmentalRisk.pollenIndex * 4);
+    riskFactors.push({
+      category: 'environmental',
+      name: 'Pollen Season Exposure',
+      impact: pollenImpact,
+      severity: getSeverity(pollenImpact, thresholds.environmental),
+      description: 'High pollen counts during birth period',
+      evidence: 'pollen',
+      calculation: `Pollen index ${environmentalRisk.pollenIndex}; 4 points per level`
+    });
+  }
+  
+  if (environmentalRisk.heatWaveDays >= 1) {
+    const heatImpact = -Math.round(Math.min(25, environmentalRisk.heatWaveDays * 3));
+    riskFactors.push({
+      category: 'environmental',
+      name: 'Heat Wave Risk',
+      impact: heatImpact,
+      severity: getSeverity(heatImpact, thresholds.environmental),
+      description: `About ${environmentalRisk.heatWaveDays} heat wave days per month expected after birth`,
+      evidence: 'heat-wave',
+      calculation: `${environmentalRisk.heatWaveDays} heat wave days per month; 3 points per day, capped at 25`
+    });
+  }
+  
+  if (environmentalRisk.coldStressDays >= 3) {
+    const coldImpact = -Math.round(Math.min(20, environmentalRisk.coldStressDays));
+    riskFactors.push({
+      category: 'environmental',
+      name: 'Cold Stress Risk',
+      impact: coldImpact,
+      severity: getSeverity(coldImpact, thresholds.environmental),
+      description: 'Indoor pollution and respiratory illness risk during cold months',
+      evidence: 'cold-stress',
+      calculation: `${environmentalRisk.coldStressDays} cold stress days per month; 1 point per day, capped at 20`
+    });
+  }
+  
+  if (!riskFactors.some(factor => factor.category === 'environmental')) {
+    riskFactors.push({
+      category: 'environmental',
+      name: 'Favorable Environmental Conditions',
+      impact: Math.round((environmentalRisk.environmentalScore - 60) * 0.3),
+      severity: 'LOW',
+      description: `Mild climate and clean air expected (${environmentalRisk.regionName} climate)`,
+      evidence: 'environmental-baseline',
+      calculation: `Environmental score ${environmentalRisk.environmentalScore}/100 vs. a reference of 60; 0.3 points per point`
+    });
+  }
   
   // Calculate overall score (0-100, higher is better)
-  const solarScore = Math.max(0, 100 - Math.abs(solarActivity.lifespanImpact) * 15);
-  const seasonalScore = seasonalRisk.overallSeasonalScore;
-  const geographicScore = Math.max(0, 100 - distanceFromEquator);
-  const environmentalScore = 75; // Placeholder - would come from air quality APIs
-  
-  const overallScore = Math.round(
-    (solarScore * WEIGHTS.solar) +
-    (seasonalScore * WEIGHTS.seasonal) +
-    (geographicScore * WEIGHTS.geographic) +
-    (environmentalScore * WEIGHTS.environmental)
+  const categoryScores = calculateCategoryScores(
+    solarActivity.lifespanImpact,
+    seasonalRisk.overallSeasonalScore,
+    location.latitude,
+    environmentalRisk.environmentalScore
   );
+  const overallScore = combineCategoryScores(categoryScores, profile);
   
   // Determine confidence level
   const confidenceLevel: 'LOW' | 'MEDIUM' | 'HIGH' = 
     overallScore >= 80 ? 'HIGH' :
     overallScore >= 60 ? 'MEDIUM' : 'LOW';
   
-  // Generate comprehensive, personalized recommendations
-  const recommendations: string[] = [];
+  // Generate comprehensive, personalized recommendations, linked to the factor that triggered them
+  const recommendations: Recommendation[] = [];
+  const findFactor = (...names: string[]) => riskFactors.find(factor => names.includes(factor.name));
+  const birthMonth = getMonth(targetDate) + 1; // formatRecommendation names it in the reader's locale
   
   // Critical timing recommendations based on solar activity
+  const solarFactor = riskFactors.find(factor => factor.category === 'solar');
   if (solarActivity.lifespanImpact < -5) {
-    recommendations.push('⚠️ CRITICAL: Consider delaying conception by 12-18 months - peak solar maximum detected with significant lifespan impact (-' + Math.abs(solarActivity.lifespanImpact).toFixed(1) + ' years)');
+    recommendations.push(createRecommendation('solar-delay-critical', { impact: solarActivity.lifespanImpact }, solarFactor));
   } else if (solarActivity.lifespanImpact < -3) {
-    recommendations.push('Consider delaying conception by 6-12 months to avoid peak solar activity (current impact: ' + solarActivity.lifespanImpact.toFixed(1) + ' years)');
+    recommendations.push(createRecommendation('solar-delay', { impact: solarActivity.lifespanImpact }, solarFactor));
   } else if (solarActivity.lifespanImpact > 2) {
-    recommendations.push('Excellent solar conditions detected - optimal timing from a solar cycle perspective (+' + solarActivity.lifespanImpact.toFixed(1) + ' years lifespan benefit)');
+    recommendations.push(createRecommendation('solar-favorable', { impact: solarActivity.lifespanImpact }, solarFactor));
   }
   
   // Vitamin D and seasonal health recommendations
+  const vitaminDFactor = findFactor('Vitamin D Advantage', 'Vitamin D Deficiency Risk');
   if (seasonalRisk.vitaminDScore < 30) {
-    recommendations.push('⚠️ CRITICAL: Start high-dose vitamin D supplementation immediately (2000-4000 IU daily) - severe deficiency risk in ' + format(targetDate, 'MMMM'));
-    recommendations.push('Schedule vitamin D blood test before conception and monitor levels throughout pregnancy');
+    recommendations.push(createRecommendation('vitamin-d-critical', { month: birthMonth }, vitaminDFactor));
+    recommendations.push(createRecommendation('vitamin-d-blood-test', {}, vitaminDFactor));
   } else if (seasonalRisk.vitaminDScore < 50) {
-    recommendations.push('Begin vitamin D supplementation (1000-2000 IU daily) at least 3 months before conception');
-    recommendations.push('Consider light therapy during pregnancy months if born in ' + format(targetDate, 'MMMM'));
+    recommendations.push(createRecommendation('vitamin-d-supplement', {}, vitaminDFactor));
+    recommendations.push(createRecommendation('vitamin-d-light-therapy', { month: birthMonth }, vitaminDFactor));
   } else if (seasonalRisk.vitaminDScore > 80) {
-    recommendations.push('Excellent vitamin D synthesis expected - maintain outdoor activities for natural production');
+    recommendations.push(createRecommendation('vitamin-d-outdoor', {}, vitaminDFactor));
   }
   
   // Infection risk management
+  const infectionFactor = findFactor('Infection Season Risk');
   if (seasonalRisk.infectiousRisk > 80) {
-    recommendations.push('⚠️ High infection risk period - implement strict hygiene protocols during first trimester');
-    recommendations.push('Consider flu vaccination before conception and pertussis vaccine during pregnancy');
-    recommendations.push('Limit exposure to crowded spaces during peak ' + format(targetDate, 'MMMM') + ' infection season');
+    recommendations.push(createRecommendation('infection-hygiene', {}, infectionFactor));
+    recommendations.push(createRecommendation('infection-vaccination', {}, infectionFactor));
+    recommendations.push(createRecommendation('infection-crowds', { month: birthMonth }, infectionFactor));
   } else if (seasonalRisk.infectiousRisk > 60) {
-    recommendations.push('Moderate infection risk - maintain good hygiene practices and consider immune support supplements');
+    recommendations.push(createRecommendation('infection-moderate', {}, infectionFactor));
   }
   
   // Educational timing advantages
   if (seasonalRisk.relativeAgeAdvantage > 70) {
-    recommendations.push('Excellent school entry timing - child will be among oldest in class with documented academic advantages');
-    recommendations.push('Consider early enrichment programs to maximize age-related developmental advantages');
+    const schoolFactor = findFactor('School Age Advantage');
+    recommendations.push(createRecommendation('school-oldest', {}, schoolFactor));
+    recommendations.push(createRecommendation('school-enrichment', {}, schoolFactor));
   } else if (seasonalRisk.relativeAgeAdvantage < 30) {
-    recommendations.push('Child will be among youngest in class - consider delayed kindergarten entry or "redshirting"');
-    recommendations.push('Focus on early childhood development programs to offset relative age disadvantage');
+    recommendations.push(createRecommendation('school-youngest'));
+    recommendations.push(createRecommendation('school-development'));
   }
   
   // Geographic and environmental factors
   if (distanceFromEquator > 50) {
-    recommendations.push('Northern latitude detected - ensure adequate indoor air quality and humidity control during winter months');
-    recommendations.push('Consider seasonal affective disorder (SAD) prevention with light therapy during pregnancy');
+    const latitudeFactor = findFactor('Latitude Challenge');
+    recommendations.push(createRecommendation('latitude-air-quality', {}, latitudeFactor));
+    recommendations.push(createRecommendation('latitude-light-therapy', {}, latitudeFactor));
+  }
+  
+  if (environmentalRisk.pm25 > 25) {
+    recommendations.push(createRecommendation('air-pollution', {}, findFactor('Air Pollution Exposure')));
+  }
+  if (environmentalRisk.heatWaveDays >= 3) {
+    recommendations.push(createRecommendation('heat-waves', {}, findFactor('Heat Wave Risk')));
   }
   
   // Mental health considerations
   if (mentalHealthMultiplier > 1.3) {
-    recommendations.push('Elevated mental health risks detected - establish care team including mental health specialist');
-    recommendations.push('Create postpartum support plan with emphasis on ' + format(targetDate, 'MMMM') + ' seasonal factors');
+    recommendations.push(createRecommendation('mental-health-care-team', {}, solarFactor));
+    recommendations.push(createRecommendation('mental-health-postpartum', { month: birthMonth }, solarFactor));
   }
   
   // Add seasonal-specific recommendations
-  recommendations.push(...getSeasonalRecommendations(targetDate, location));
+  recommendations.push(...getSeasonalRecommendations(targetDate, location, seasonalRisk));
   
   // General best practices based on score
   if (overallScore >= 80) {
-    recommendations.push('Optimal timing confirmed - proceed with standard prenatal care and preparation');
+    recommendations.push(createRecommendation('score-optimal'));
   } else if (overallScore >= 60) {
-    recommendations.push('Good timing with manageable risks - focus on addressing specific risk factors identified above');
+    recommendations.push(createRecommendation('score-good'));
   } else {
-    recommendations.push('Consider alternative timing or implement comprehensive risk mitigation strategies');
+    recommendations.push(createRecommendation('score-poor'));
   }
   
-  // Filter out duplicates and sort by priority
-  const uniqueRecommendations = [...new Set(recommendations)];
-  
-  // Sort recommendations by priority (critical first)
-  const sortedRecommendations = uniqueRecommendations.sort((a, b) => {
-    if (a.includes('⚠️ CRITICAL')) return -1;
-    if (b.includes('⚠️ CRITICAL')) return 1;
-    if (a.includes('Consider delaying')) return -1;
-    if (b.includes('Consider delaying')) return 1;
-    return 0;
-  });
+  // Categories the profile leaves out contribute neither risk factors nor the advice they trigger
+  const isIncluded = (category: ScoreCategory | undefined) => !category || profile.includedCategories.includes(category);
   
   return {
     birthDate: targetDate,
+    location,
     overallScore,
     lifeExpectancyDelta: solarActivity.lifespanImpact,
+    lifeExpectancyRange: solarActivity.lifespanImpactRange,
+    baselineLifeExpectancy: lifeExpectancyProjection.years,
+    lifeExpectancyProjection,
+    categoryScores,
+    categoryWeights: getEffectiveWeights(profile),
     confidenceLevel,
-    riskFactors,
-    recommendations: sortedRecommendations,
+    riskFactors: riskFactors.filter(factor => isIncluded(factor.category)),
+    recommendations: prioritizeRecommendations(
+      recommendations.filter(recommendation => isIncluded(getRecommendationScoreCategory(recommendation.id)))
+    ),
     solarData: {
       sunspotNumber: solarActivity.sunspotNumber,
       solarRisk,
       lifespanImpact: solarActivity.lifespanImpact,
       mentalHealthMultiplier,
-      uvRadiationLevel: solarActivity.uvRadiationLevel
+      uvRadiationLevel: solarActivity.uvRadiationLevel,
+      dataSource: solarActivity.dataSource
     },
     seasonalData: {
       vitaminDScore: seasonalRisk.vitaminDScore,
       infectiousRisk: seasonalRisk.infectiousRisk,
       relativeAgeAdvantage: seasonalRisk.relativeAgeAdvantage,
       overallSeasonalScore: seasonalRisk.overallSeasonalScore
-    }
+    },
+    environmentalData: {
+      region: environmentalRisk.region,
+      regionName: environmentalRisk.regionName,
+      pm25: environmentalRisk.pm25,
+      pollenIndex: environmentalRisk.pollenIndex,
+      heatWaveDays: environmentalRisk.heatWaveDays,
+      coldStressDays: environmentalRisk.coldStressDays,
+      environmentalScore: environmentalRisk.environmentalScore
+    },
+    model: getModelInfo(seed),
+    scoringProfile: profile
   };
 };
 
+const RESOLUTION_STEPS: Record<AnalysisResolution, (date: Date, steps: number) => Date> = {
+  monthly: addMonths,
+  weekly: addWeeks,
+  daily: addDays
+};
+
+// Dates from rangeMonths before to rangeMonths after the center, stepping at the given resolution
+export const getRangeDates = (centerDate: Date, rangeMonths: number, resolution: AnalysisResolution): Date[] => {
+  const step = RESOLUTION_STEPS[resolution];
+  const center = atCivilNoon(centerDate);
+  const start = addMonths(center, -rangeMonths);
+  const end = addMonths(center, rangeMonths);
+  
+  // Step outwards from the center so the center date itself is always evaluated
+  const dates: Date[] = [];
+  for (let i = 0; step(center, -i) >= start; i++) dates.unshift(atCivilNoon(step(center, -i)));
+  for (let i = 1; step(center, i) <= end; i++) dates.push(atCivilNoon(step(center, i)));
+  return dates;
+};
+
 export const analyzeTimingRange = async (
   location: LocationData,
   centerDate: Date,
-  rangeMonths: number = 24
+  rangeMonths: number = 24,
+  options: RangeAnalysisOptions = {}
 ): Promise<TimingAnalysis> => {
+  const resolution = options.resolution ?? 'monthly';
   const analyses: OptimalTimingResult[] = [];
   
-  // Calculate for each month in the range
-  for (let i = -rangeMonths; i <= rangeMonths; i++) {
-    const testDate = addMonths(centerDate, i);
-    const analysis = await calculateOptimalTiming(location, testDate);
+  // Calculate for each step in the range
+  for (const testDate of getRangeDates(centerDate, rangeMonths, resolution)) {
+    const analysis = await calculateOptimalTiming(location, testDate, rangeMonths, options);
     analyses.push(analysis);
   }
   
@@ -354,25 +559,52 @@ export const analyzeTimingRange = async (
   }
   
   return {
+    resolution,
+    series: analyses,
     optimalWindows,
-    currentTiming: await calculateOptimalTiming(location, centerDate),
+    currentTiming: analyses.find(a => a.birthDate.getTime() === atCivilNoon(centerDate).getTime())!,
     bestOverallMonth: bestAnalysis.birthDate.getMonth() + 1,
     worstOverallMonth: worstAnalysis.birthDate.getMonth() + 1,
     yearlyTrend
   };
 };
 
-export const generateOptimalityReport = async (
-  location: LocationData,
-  selectedDate: Date
-): Promise<{
+export interface OptimalityReport {
   summary: string;
   analysis: OptimalTimingResult;
   alternatives: OptimalTimingResult[];
-  scientificBasis: string[];
-}> => {
-  const analysis = await calculateOptimalTiming(location, selectedDate);
-  const timingAnalysis = await analyzeTimingRange(location, selectedDate, 12);
+  monthlyScores: ReportScorePoint[]; // 12 months either side of the selected date
+  scientificBasis: Citation[]; // Only the sources behind this analysis
+}
+
+export interface ReportScorePoint {
+  date: Date;
+  score: number;
+}
+
+// Evidence entries behind a result's risk factors, recommendations and seasonal disease tables
+export const getAnalysisEvidence = (result: OptimalTimingResult): EvidenceId[] => {
+  const ids: EvidenceId[] = [
+    ...result.riskFactors.map(factor => factor.evidence),
+    ...result.recommendations.flatMap(recommendation => recommendation.evidence)
+  ];
+  if (result.scoringProfile.includedCategories.includes('seasonal')) {
+    ids.push(...Object.values(DISEASE_RISK_EVIDENCE));
+  }
+  return [...new Set(ids)];
+};
+
+export const getAnalysisCitations = (result: OptimalTimingResult): Citation[] =>
+  getCitationsForEvidence(getAnalysisEvidence(result));
+
+export const generateOptimalityReport = async (
+  location: LocationData,
+  selectedDate: Date,
+  options: TimingOptions = {}
+): Promise<OptimalityReport> => {
+  // The range always includes the selected date itself, so its result doubles as the main analysis
+  const timingAnalysis = await analyzeTimingRange(location, selectedDate, 12, options);
+  const analysis = timingAnalysis.currentTiming;
   
   const summary = `
     Birth timing analysis for ${format(selectedDate, 'MMMM yyyy')} in ${location.city}, ${location.country}:
@@ -382,21 +614,18 @@ export const generateOptimalityReport = async (
   `.trim();
   
   const alternatives = timingAnalysis.optimalWindows
-    .filter(w => w.birthDate.getTime() !== selectedDate.getTime())
+    .filter(w => w.birthDate.getTime() !== analysis.birthDate.getTime())
     .slice(0, 3);
   
-  const scientificBasis = [
-    'Solar cycle effects on human lifespan: Lowell & Davis (2008), Solar Physics',
-    'Seasonal birth effects on disease risk: Disanto et al. (2012), PLoS ONE',
-    'Vitamin D deficiency and birth timing: Haggarty et al. (2004), British Journal of Nutrition',
-    'Relative age effects in education: Bedard & Dhuey (2006), Quarterly Journal of Economics',
-    'UV radiation and folate metabolism: Jablonski & Chaplin (2010), Annual Review of Anthropology'
-  ];
+  const monthlyScores = timingAnalysis.series.map(result => ({ date: result.birthDate, score: result.overallScore }));
+  
+  const scientificBasis = getAnalysisCitations(analysis);
   
   return {
     summary,
     analysis,
     alternatives,
+    monthlyScores,
     scientificBasis
   };
 };
\ No newline at end of file
@@ -0,0 +1,314 @@
+import { format } from 'date-fns';
+import type { jsPDF } from 'jspdf';
+import { getLocationLabel, LocationData } from './geolocation';
+import { OptimalityReport, OptimalTimingResult, RiskFactor } from './optimal-timing';
+import { formatRecommendation, Recommendation } from './recommendations';
+import { formatCitation } from './evidence';
+import { formatProjectionBasis } from './life-expectancy';
+
+type RGB = [number, number, number];
+
+// What the PDF draws; saved reports keep only the date and score of each alternative
+export type PdfReportContent = Pick<OptimalityReport, 'analysis' | 'monthlyScores' | 'scientificBasis'> & {
+  alternatives: Pick<OptimalTimingResult, 'birthDate' | 'overallScore'>[];
+};
+
+const PAGE_MARGIN = 18;
+const LINE_HEIGHT = 5;
+
+const COLORS: Record<'text' | 'muted' | 'border' | 'good' | 'fair' | 'poor' | 'accent', RGB> = {
+  text: [17, 24, 39],
+  muted: [107, 114, 128],
+  border: [229, 231, 235],
+  good: [22, 163, 74],
+  fair: [202, 138, 4],
+  poor: [220, 38, 38],
+  accent: [59, 130, 246]
+};
+
+// Same bands as the on-screen score
+const getScoreColor = (score: number): RGB =>
+  score >= 80 ? COLORS.good : score >= 60 ? COLORS.fair : COLORS.poor;
+
+const SEVERITY_COLORS: Record<RiskFactor['severity'], RGB> = {
+  HIGH: COLORS.poor,
+  MEDIUM: COLORS.fair,
+  LOW: COLORS.good
+};
+
+const PRIORITY_LABELS: Record<Recommendation['priority'], string> = {
+  critical: 'Critical',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+};
+
+// Top-to-bottom layout on A4 pages, starting a new page whenever a block would not fit
+const createWriter = (doc: jsPDF) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const setText = (size: number, style: 'normal' | 'bold' = 'normal', color: RGB = COLORS.text) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+  };
+
+  const paragraph = (text: string, size = 10, color: RGB = COLORS.text, indent = 0) => {
+    setText(size, 'normal', color);
+    const lines = doc.splitTextToSize(text, contentWidth - indent) as string[];
+    for (const line of lines) {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(line, PAGE_MARGIN + indent, y);
+      y += LINE_HEIGHT;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(16);
+    y += 4;
+    setText(14, 'bold');
+    doc.text(text, PAGE_MARGIN, y);
+    y += 2;
+    doc.setDrawColor(...COLORS.border);
+    doc.setLineWidth(0.3);
+    doc.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y);
+    y += 6;
+  };
+
+  return {
+    doc,
+    pageWidth,
+    pageHeight,
+    contentWidth,
+    ensureSpace,
+    setText,
+    paragraph,
+    heading,
+    get y() { return y; },
+    set y(value: number) { y = value; }
+  };
+};
+
+type PdfWriter = ReturnType<typeof createWriter>;
+
+// Half-circle gauge with red, yellow and green bands and a needle at the score
+const drawScoreGauge = (writer: PdfWriter, score: number, centerX: number, centerY: number, radius: number) => {
+  const { doc } = writer;
+  const bands: [number, number, RGB][] = [[0, 60, COLORS.poor], [60, 80, COLORS.fair], [80, 100, COLORS.good]];
+  const pointAt = (value: number, r: number): [number, number] => {
+    const angle = Math.PI * (1 - value / 100);
+    return [centerX + r * Math.cos(angle), centerY - r * Math.sin(angle)];
+  };
+
+  doc.setLineWidth(4);
+  for (const [from, to, color] of bands) {
+    doc.setDrawColor(...color);
+    for (let value = from; value < to; value += 2) {
+      const [x1, y1] = pointAt(value, radius);
+      const [x2, y2] = pointAt(Math.min(value + 2, to), radius);
+      doc.line(x1, y1, x2, y2);
+    }
+  }
+
+  const [needleX, needleY] = pointAt(Math.max(0, Math.min(100, score)), radius - 6);
+  doc.setDrawColor(...COLORS.text);
+  doc.setLineWidth(0.8);
+  doc.line(centerX, centerY, needleX, needleY);
+  doc.setFillColor(...COLORS.text);
+  doc.circle(centerX, centerY, 1.2, 'F');
+
+  writer.setText(22, 'bold', getScoreColor(score));
+  doc.text(`${score}`, centerX, centerY + 10, { align: 'center' });
+  writer.setText(8, 'normal', COLORS.muted);
+  doc.text('out of 100', centerX, centerY + 14, { align: 'center' });
+};
+
+// Bar per month, the selected month highlighted
+const drawMonthlyChart = (writer: PdfWriter, report: PdfReportContent, height: number) => {
+  const { doc, contentWidth } = writer;
+  const points = report.monthlyScores;
+  if (points.length === 0) return;
+
+  writer.ensureSpace(height + 12);
+  const top = writer.y;
+  const axisLeft = PAGE_MARGIN + 8;
+  const chartWidth = contentWidth - 8;
+  const barSlot = chartWidth / points.length;
+  const selected = report.analysis.birthDate.getTime();
+
+  writer.setText(7, 'normal', COLORS.muted);
+  for (const tick of [0, 50, 100]) {
+    const tickY = top + height - (tick / 100) * height;
+    doc.text(`${tick}`, axisLeft - 2, tickY + 1, { align: 'right' });
+    doc.setDrawColor(...COLORS.border);
+    doc.setLineWidth(0.2);
+    doc.line(axisLeft, tickY, axisLeft + chartWidth, tickY);
+  }
+
+  points.forEach((point, index) => {
+    const barHeight = (Math.max(0, point.score) / 100) * height;
+    const x = axisLeft + index * barSlot + barSlot * 0.15;
+    doc.setFillColor(...(point.date.getTime() === selected ? COLORS.accent : getScoreColor(point.score)));
+    doc.rect(x, top + height - barHeight, barSlot * 0.7, barHeight, 'F');
+
+    if (index % 3 === 0 || point.date.getTime() === selected) {
+      writer.setText(6, 'normal', COLORS.muted);
+      doc.text(format(point.date, 'MMM yy'), x + barSlot * 0.35, top + height + 4, { align: 'center' });
+    }
+  });
+
+  writer.y = top + height + 10;
+};
+
+const drawRiskFactorTable = (writer: PdfWriter, factors: RiskFactor[]) => {
+  const { doc, contentWidth } = writer;
+  const columns = { name: PAGE_MARGIN, category: PAGE_MARGIN + 62, impact: PAGE_MARGIN + 100, severity: PAGE_MARGIN + 122 };
+
+  writer.setText(8, 'bold', COLORS.muted);
+  doc.text('FACTOR', columns.name, writer.y);
+  doc.text('CATEGORY', columns.category, writer.y);
+  doc.text('IMPACT', columns.impact, writer.y);
+  doc.text('SEVERITY', columns.severity, writer.y);
+  writer.y += 3;
+
+  for (const factor of factors) {
+    const description = doc.splitTextToSize(factor.description, contentWidth - 4) as string[];
+    writer.ensureSpace(8 + description.length * 4);
+
+    doc.setDrawColor(...COLORS.border);
+    doc.setLineWidth(0.2);
+    doc.line(PAGE_MARGIN, writer.y, PAGE_MARGIN + contentWidth, writer.y);
+    writer.y += 5;
+
+    writer.setText(9, 'bold');
+    doc.text(factor.name, columns.name, writer.y);
+    writer.setText(9);
+    doc.text(factor.category, columns.category, writer.y);
+    writer.setText(9, 'bold', factor.impact > 0 ? COLORS.good : COLORS.poor);
+    doc.text(`${factor.impact > 0 ? '+' : ''}${factor.impact}`, columns.impact, writer.y);
+    writer.setText(9, 'bold', SEVERITY_COLORS[factor.severity]);
+    doc.text(factor.severity, columns.severity, writer.y);
+    writer.y += 4;
+
+    writer.setText(8, 'normal', COLORS.muted);
+    for (const line of description) {
+      doc.text(line, columns.name + 2, writer.y);
+      writer.y += 4;
+    }
+  }
+  writer.y += 2;
+};
+
+const addPageFooters = (writer: PdfWriter, generatedAt: Date) => {
+  const { doc, pageWidth, pageHeight } = writer;
+  const pages = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    writer.setText(7, 'normal', COLORS.muted);
+    doc.text(
+      'Population-level statistical associations only; not medical advice.',
+      PAGE_MARGIN,
+      pageHeight - 8
+    );
+    doc.text(
+      `Generated ${format(generatedAt, 'MMM d, yyyy')} · Page ${page} of ${pages}`,
+      pageWidth - PAGE_MARGIN,
+      pageHeight - 8,
+      { align: 'right' }
+    );
+  }
+};
+
+// Multi-page A4 report built in the browser. jsPDF is loaded on demand so it stays out of the main bundle.
+export const generateReportPdf = async (report: PdfReportContent, location: LocationData): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const writer = createWriter(doc);
+  const { analysis } = report;
+
+  // Title
+  writer.setText(20, 'bold');
+  doc.text('Birth Timing Report', PAGE_MARGIN, writer.y + 4);
+  writer.y += 11;
+  writer.paragraph(
+    `${format(analysis.birthDate, 'MMMM d, yyyy')} · ${getLocationLabel(location)}` +
+      (location.timezone ? ` (${location.timezone})` : ''),
+    11,
+    COLORS.muted
+  );
+
+  // Summary with score gauge
+  writer.heading('Summary');
+  const summaryTop = writer.y;
+  drawScoreGauge(writer, analysis.overallScore, PAGE_MARGIN + 28, summaryTop + 24, 24);
+
+  const facts = [
+    `Confidence: ${analysis.confidenceLevel}`,
+    `Lifespan impact: ${analysis.lifeExpectancyDelta >= 0 ? '+' : ''}${analysis.lifeExpectancyDelta} years ` +
+      `(range ${analysis.lifeExpectancyRange.low} to ${analysis.lifeExpectancyRange.high})`,
+    `Projected lifespan: ${(analysis.baselineLifeExpectancy + analysis.lifeExpectancyDelta).toFixed(1)} years`,
+    `Baseline: ${formatProjectionBasis(analysis.lifeExpectancyProjection)}`,
+    `High-severity factors: ${analysis.riskFactors.filter(factor => factor.severity === 'HIGH').length}`,
+    `Scoring profile: ${analysis.scoringProfile.name} · Model ${analysis.model.version}`
+  ];
+  writer.y = summaryTop + 2;
+  for (const fact of facts) {
+    writer.setText(9);
+    const lines = doc.splitTextToSize(fact, writer.contentWidth - 64) as string[];
+    for (const line of lines) {
+      doc.text(line, PAGE_MARGIN + 62, writer.y);
+      writer.y += LINE_HEIGHT;
+    }
+  }
+  writer.y = Math.max(writer.y, summaryTop + 44) + 4;
+
+  // Monthly chart
+  writer.heading('Monthly Scores');
+  drawMonthlyChart(writer, report, 45);
+  if (report.alternatives.length > 0) {
+    writer.paragraph(
+      'Higher-scoring alternatives: ' +
+        report.alternatives.map(alt => `${format(alt.birthDate, 'MMMM yyyy')} (${alt.overallScore})`).join(', '),
+      9,
+      COLORS.muted
+    );
+  }
+
+  // Risk factors
+  writer.heading('Risk Factors');
+  drawRiskFactorTable(writer, analysis.riskFactors);
+
+  // Recommendations
+  writer.heading('Recommendations');
+  for (const recommendation of analysis.recommendations) {
+    writer.ensureSpace(LINE_HEIGHT * 2);
+    writer.setText(8, 'bold', recommendation.priority === 'critical' ? COLORS.poor : COLORS.muted);
+    doc.text(PRIORITY_LABELS[recommendation.priority].toUpperCase(), PAGE_MARGIN, writer.y);
+    writer.paragraph(formatRecommendation(recommendation), 9, COLORS.text, 20);
+    writer.y += 1;
+  }
+
+  // Citations
+  writer.heading('References');
+  report.scientificBasis.forEach((citation, index) => {
+    writer.paragraph(`${index + 1}. ${formatCitation(citation)}`, 8, COLORS.text);
+    writer.y += 1;
+  });
+
+  addPageFooters(writer, new Date());
+  return doc.output('blob');
+};
+
+export const getReportPdfFilename = (report: PdfReportContent, location: LocationData): string =>
+  `birth-report-${format(report.analysis.birthDate, 'yyyy-MM-dd')}-${getLocationLabel(location).replace(/[^\w]+/g, '-')}.pdf`;
@@ -0,0 +1,336 @@
+import { RiskFactor } from './optimal-timing';
+import { EvidenceId } from './evidence';
+import { ScoreCategory } from './scoring-profiles';
+
+export type RecommendationPriority = 'critical' | 'high' | 'medium' | 'low';
+
+export type RecommendationCategory =
+  | 'timing'
+  | 'nutrition'
+  | 'infection'
+  | 'education'
+  | 'environment'
+  | 'mental-health'
+  | 'cardiovascular'
+  | 'general';
+
+export type RecommendationId =
+  | 'solar-delay-critical'
+  | 'solar-delay'
+  | 'solar-favorable'
+  | 'vitamin-d-critical'
+  | 'vitamin-d-blood-test'
+  | 'vitamin-d-supplement'
+  | 'vitamin-d-light-therapy'
+  | 'vitamin-d-outdoor'
+  | 'infection-hygiene'
+  | 'infection-vaccination'
+  | 'infection-crowds'
+  | 'infection-moderate'
+  | 'school-oldest'
+  | 'school-enrichment'
+  | 'school-youngest'
+  | 'school-development'
+  | 'latitude-air-quality'
+  | 'latitude-light-therapy'
+  | 'air-pollution'
+  | 'heat-waves'
+  | 'mental-health-care-team'
+  | 'mental-health-postpartum'
+  | 'seasonal-vitamin-d'
+  | 'seasonal-infection'
+  | 'seasonal-school-entry'
+  | 'seasonal-cardiovascular'
+  | 'seasonal-mental-health'
+  | 'score-optimal'
+  | 'score-good'
+  | 'score-poor';
+
+// A 'month' param is a calendar month number (1-12), shown as the month's name
+export type RecommendationParams = Record<string, string | number>;
+
+export interface Recommendation {
+  id: RecommendationId;
+  priority: RecommendationPriority;
+  category: RecommendationCategory;
+  riskFactor?: RiskFactor; // Factor that triggered the recommendation, when there is one
+  template: string;        // English message with {param} placeholders
+  params: RecommendationParams;
+  evidence: EvidenceId[]; // Registry entries backing the advice
+}
+
+interface RecommendationDefinition {
+  priority: RecommendationPriority;
+  category: RecommendationCategory;
+  scoreCategory?: ScoreCategory; // Score category whose inputs trigger it; general advice has none
+  template: string;
+  evidence: EvidenceId[];
+}
+
+const RECOMMENDATION_DEFINITIONS: Record<RecommendationId, RecommendationDefinition> = {
+  'solar-delay-critical': {
+    priority: 'critical',
+    category: 'timing',
+    scoreCategory: 'solar',
+    template: 'Consider delaying conception by 12-18 months - peak solar maximum detected with significant lifespan impact ({impact} years)',
+    evidence: ['solar-cycle-lifespan']
+  },
+  'solar-delay': {
+    priority: 'high',
+    category: 'timing',
+    scoreCategory: 'solar',
+    template: 'Consider delaying conception by 6-12 months to avoid peak solar activity (current impact: {impact} years)',
+    evidence: ['solar-cycle-lifespan']
+  },
+  'solar-favorable': {
+    priority: 'low',
+    category: 'timing',
+    scoreCategory: 'solar',
+    template: 'Excellent solar conditions detected - optimal timing from a solar cycle perspective (+{impact} years lifespan benefit)',
+    evidence: ['solar-cycle-lifespan']
+  },
+  'vitamin-d-critical': {
+    priority: 'critical',
+    category: 'nutrition',
+    scoreCategory: 'seasonal',
+    template: 'Start high-dose vitamin D supplementation immediately (2000-4000 IU daily) - severe deficiency risk in {month}',
+    evidence: ['vitamin-d-synthesis']
+  },
+  'vitamin-d-blood-test': {
+    priority: 'high',
+    category: 'nutrition',
+    scoreCategory: 'seasonal',
+    template: 'Schedule vitamin D blood test before conception and monitor levels throughout pregnancy',
+    evidence: ['vitamin-d-synthesis']
+  },
+  'vitamin-d-supplement': {
+    priority: 'medium',
+    category: 'nutrition',
+    scoreCategory: 'seasonal',
+    template: 'Begin vitamin D supplementation (1000-2000 IU daily) at least 3 months before conception',
+    evidence: ['vitamin-d-synthesis']
+  },
+  'vitamin-d-light-therapy': {
+    priority: 'medium',
+    category: 'nutrition',
+    scoreCategory: 'seasonal',
+    template: 'Consider light therapy during pregnancy months if born in {month}',
+    evidence: ['vitamin-d-synthesis']
+  },
+  'vitamin-d-outdoor': {
+    priority: 'low',
+    category: 'nutrition',
+    scoreCategory: 'seasonal',
+    template: 'Excellent vitamin D synthesis expected - maintain outdoor activities for natural production',
+    evidence: ['vitamin-d-synthesis']
+  },
+  'infection-hygiene': {
+    priority: 'high',
+    category: 'infection',
+    scoreCategory: 'seasonal',
+    template: 'High infection risk period - implement strict hygiene protocols during first trimester',
+    evidence: ['infection-season']
+  },
+  'infection-vaccination': {
+    priority: 'high',
+    category: 'infection',
+    scoreCategory: 'seasonal',
+    template: 'Consider flu vaccination before conception and pertussis vaccine during pregnancy',
+    evidence: ['infection-season']
+  },
+  'infection-crowds': {
+    priority: 'medium',
+    category: 'infection',
+    scoreCategory: 'seasonal',
+    template: 'Limit exposure to crowded spaces during peak {month} infection season',
+    evidence: ['infection-season']
+  },
+  'infection-moderate': {
+    priority: 'medium',
+    category: 'infection',
+    scoreCategory: 'seasonal',
+    template: 'Moderate infection risk - maintain good hygiene practices and consider immune support supplements',
+    evidence: ['infection-season']
+  },
+  'school-oldest': {
+    priority: 'low',
+    category: 'education',
+    scoreCategory: 'seasonal',
+    template: 'Excellent school entry timing - child will be among oldest in class with documented academic advantages',
+    evidence: ['relative-age']
+  },
+  'school-enrichment': {
+    priority: 'low',
+    category: 'education',
+    scoreCategory: 'seasonal',
+    template: 'Consider early enrichment programs to maximize age-related developmental advantages',
+    evidence: ['relative-age']
+  },
+  'school-youngest': {
+    priority: 'medium',
+    category: 'education',
+    scoreCategory: 'seasonal',
+    template: 'Child will be among youngest in class - consider delayed kindergarten entry or "redshirting"',
+    evidence: ['relative-age']
+  },
+  'school-development': {
+    priority: 'medium',
+    category: 'education',
+    scoreCategory: 'seasonal',
+    template: 'Focus on early childhood development programs to offset relative age disadvantage',
+    evidence: ['relative-age']
+  },
+  'latitude-air-quality': {
+    priority: 'medium',
+    category: 'environment',
+    scoreCategory: 'geographic',
+    template: 'Northern latitude detected - ensure adequate indoor air quality and humidity control during winter months',
+    evidence: ['latitude']
+  },
+  'latitude-light-therapy': {
+    priority: 'medium',
+    category: 'mental-health',
+    scoreCategory: 'geographic',
+    template: 'Consider seasonal affective disorder (SAD) prevention with light therapy during pregnancy',
+    evidence: ['latitude', 'birth-month-mental-health']
+  },
+  'air-pollution': {
+    priority: 'high',
+    category: 'environment',
+    scoreCategory: 'environmental',
+    template: 'High air pollution expected around birth - plan for HEPA air filtration and limit outdoor exposure on poor air quality days',
+    evidence: ['air-pollution']
+  },
+  'heat-waves': {
+    priority: 'medium',
+    category: 'environment',
+    scoreCategory: 'environmental',
+    template: 'Frequent heat waves expected after birth - plan for home cooling and newborn hydration',
+    evidence: ['heat-wave']
+  },
+  'mental-health-care-team': {
+    priority: 'high',
+    category: 'mental-health',
+    scoreCategory: 'solar',
+    template: 'Elevated mental health risks detected - establish care team including mental health specialist',
+    evidence: ['solar-cycle-lifespan', 'birth-month-mental-health']
+  },
+  'mental-health-postpartum': {
+    priority: 'medium',
+    category: 'mental-health',
+    scoreCategory: 'solar',
+    template: 'Create postpartum support plan with emphasis on {month} seasonal factors',
+    evidence: ['birth-month-mental-health']
+  },
+  'seasonal-vitamin-d': {
+    priority: 'medium',
+    category: 'nutrition',
+    scoreCategory: 'seasonal',
+    template: 'Consider vitamin D supplementation during pregnancy and early infancy',
+    evidence: ['vitamin-d-synthesis']
+  },
+  'seasonal-infection': {
+    priority: 'medium',
+    category: 'infection',
+    scoreCategory: 'seasonal',
+    template: 'Take extra precautions against infections during the first 6 months',
+    evidence: ['infection-season', 'birth-month-infectious']
+  },
+  'seasonal-school-entry': {
+    priority: 'low',
+    category: 'education',
+    scoreCategory: 'seasonal',
+    template: 'Child may benefit from delayed school entry or summer programs',
+    evidence: ['relative-age']
+  },
+  'seasonal-cardiovascular': {
+    priority: 'medium',
+    category: 'cardiovascular',
+    scoreCategory: 'seasonal',
+    template: 'Monitor cardiovascular health markers throughout life',
+    evidence: ['birth-month-cardiovascular']
+  },
+  'seasonal-mental-health': {
+    priority: 'medium',
+    category: 'mental-health',
+    scoreCategory: 'seasonal',
+    template: 'Be aware of increased mental health risks and ensure good support systems',
+    evidence: ['birth-month-mental-health']
+  },
+  'score-optimal': {
+    priority: 'low',
+    category: 'general',
+    template: 'Optimal timing confirmed - proceed with standard prenatal care and preparation',
+    evidence: []
+  },
+  'score-good': {
+    priority: 'low',
+    category: 'general',
+    template: 'Good timing with manageable risks - focus on addressing specific risk factors identified above',
+    evidence: []
+  },
+  'score-poor': {
+    priority: 'medium',
+    category: 'general',
+    template: 'Consider alternative timing or implement comprehensive risk mitigation strategies',
+    evidence: []
+  }
+};
+
+export const RECOMMENDATION_PRIORITIES: RecommendationPriority[] = ['critical', 'high', 'medium', 'low'];
+
+export const RECOMMENDATION_CATEGORIES: RecommendationCategory[] = [
+  'timing', 'nutrition', 'infection', 'education', 'environment', 'mental-health', 'cardiovascular', 'general'
+];
+
+export const createRecommendation = (
+  id: RecommendationId,
+  params: RecommendationParams = {},
+  riskFactor?: RiskFactor
+): Recommendation => {
+  const definition = RECOMMENDATION_DEFINITIONS[id];
+  return {
+    id,
+    priority: definition.priority,
+    category: definition.category,
+    riskFactor,
+    template: definition.template,
+    params,
+    evidence: definition.evidence
+  };
+};
+
+export const getRecommendationScoreCategory = (id: RecommendationId): ScoreCategory | undefined =>
+  RECOMMENDATION_DEFINITIONS[id].scoreCategory;
+
+// Drops repeated ids (first occurrence wins) and orders by priority, keeping insertion order within a priority
+export const prioritizeRecommendations = (recommendations: Recommendation[]): Recommendation[] => {
+  const unique = recommendations.filter(
+    (recommendation, index) => recommendations.findIndex(r => r.id === recommendation.id) === index
+  );
+  return unique
+    .map((recommendation, index) => ({ recommendation, index }))
+    .sort((a, b) =>
+      RECOMMENDATION_PRIORITIES.indexOf(a.recommendation.priority) - RECOMMENDATION_PRIORITIES.indexOf(b.recommendation.priority) ||
+      a.index - b.index
+    )
+    .map(({ recommendation }) => recommendation);
+};
+
+const formatMonth = (month: number, locale: string): string =>
+  new Intl.DateTimeFormat(locale, { month: 'long' }).format(new Date(2001, month - 1, 15));
+
+// Fills the template, or a translated message for the same id when a catalog is given
+export const formatRecommendation = (
+  recommendation: Recommendation,
+  messages: Partial<Record<RecommendationId, string>> = {},
+  locale: string = 'en'
+): string => {
+  const template = messages[recommendation.id] ?? recommendation.template;
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => {
+    const value = recommendation.params[key];
+    if (value === undefined) return match;
+    if (typeof value === 'string') return value; // Includes month names in reports saved before months were numbers
+    return key === 'month' ? formatMonth(value, locale) : value.toLocaleString(locale, { maximumFractionDigits: 1 });
+  });
+};
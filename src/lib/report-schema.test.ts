@@ -0,0 +1,114 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { generateOptimalityReport, OptimalityReport } from './optimal-timing';
+import {
+  buildSavedReport,
+  getOpenedReportPdfContent,
+  openSavedReport,
+  REPORT_FORMAT,
+  REPORT_SCHEMA_VERSION,
+  SavedReport
+} from './report-schema';
+
+const LOCATION = {
+  latitude: 59.91,
+  longitude: 10.75,
+  city: 'Oslo',
+  country: 'Norway',
+  countryCode: 'NO',
+  timezone: 'Europe/Oslo'
+};
+
+let report: OptimalityReport;
+let saved: SavedReport;
+
+// Files go through JSON, so compare against what a reader gets back from disk
+const toFile = (value: unknown): string => JSON.stringify(value, null, 2);
+
+beforeAll(async () => {
+  report = await generateOptimalityReport(LOCATION, new Date(2026, 8, 20, 12), { seed: 11 });
+  saved = buildSavedReport({ source: 'dashboard', analysis: report.analysis, citations: report.scientificBasis, report });
+});
+
+describe('saved report round trip', () => {
+  it('writes the current format and schema version', () => {
+    expect(saved.format).toBe(REPORT_FORMAT);
+    expect(saved.schemaVersion).toBe(REPORT_SCHEMA_VERSION);
+    expect(saved.birthDate).toBe('2026-09-20');
+  });
+
+  it('reopens to the analysis and range context it was saved from', () => {
+    const opened = openSavedReport(toFile(saved));
+
+    expect(opened.source).toBe('dashboard');
+    expect(opened.location).toEqual(LOCATION);
+    expect(opened.analysis).toEqual(report.analysis);
+    expect(opened.summary).toBe(report.summary);
+    expect(opened.monthlyScores).toEqual(report.monthlyScores);
+    expect(opened.alternatives).toEqual(report.alternatives.map(({ birthDate, overallScore, lifeExpectancyDelta }) =>
+      ({ birthDate, overallScore, lifeExpectancyDelta })));
+    expect(opened.citations).toEqual(report.scientificBasis);
+    expect(opened.outdatedModelFields).toEqual([]);
+  });
+
+  it('saves a reopened report unchanged', () => {
+    const opened = openSavedReport(toFile(saved));
+    const again = buildSavedReport({ source: opened.source, analysis: opened.analysis, citations: opened.citations });
+
+    expect(again).toEqual({
+      ...saved,
+      exportedAt: again.exportedAt,
+      summary: undefined,
+      monthlyScores: undefined,
+      alternatives: undefined
+    });
+  });
+
+  it('flags model fields that differ from the running engine', () => {
+    const older = { ...saved, model: { ...saved.model, version: '0.9.0' } };
+    expect(openSavedReport(toFile(older)).outdatedModelFields).toEqual(['version']);
+
+    const otherProvider = { ...saved, model: { ...saved.model, solarProvider: 'noaa' } };
+    expect(saved.model.solarProvider).toBe('static');
+    expect(openSavedReport(toFile(otherProvider)).outdatedModelFields).toEqual(['solarProvider']);
+  });
+});
+
+describe('opened report PDF content', () => {
+  it('comes from the saved data, even when the engine has moved on', () => {
+    const older = { ...saved, model: { ...saved.model, version: '0.9.0' } };
+    const content = getOpenedReportPdfContent(openSavedReport(toFile(older)));
+
+    expect(content.analysis.model.version).toBe('0.9.0');
+    expect(content.analysis.overallScore).toBe(report.analysis.overallScore);
+    expect(content.monthlyScores).toEqual(report.monthlyScores);
+    expect(content.alternatives.map(alternative => alternative.birthDate))
+      .toEqual(report.alternatives.map(alternative => alternative.birthDate));
+    expect(content.scientificBasis).toEqual(report.scientificBasis);
+  });
+
+  it('has an empty range when the report was saved without one', () => {
+    const bare = buildSavedReport({ source: 'dashboard', analysis: report.analysis, citations: report.scientificBasis });
+    const content = getOpenedReportPdfContent(openSavedReport(toFile(bare)));
+
+    expect(content.monthlyScores).toEqual([]);
+    expect(content.alternatives).toEqual([]);
+  });
+});
+
+describe('rejected files', () => {
+  it('explains what is wrong with the file', () => {
+    expect(() => openSavedReport('{not json')).toThrow('The file is not valid JSON');
+    expect(() => openSavedReport(toFile({ format: 'something-else' }))).toThrow('This file is not a birth timing report');
+    expect(() => openSavedReport(toFile({ ...saved, schemaVersion: REPORT_SCHEMA_VERSION + 1 })))
+      .toThrow(`This report uses schema version ${REPORT_SCHEMA_VERSION + 1}; update the app to open it`);
+  });
+
+  it('rejects unknown evidence ids and malformed dates', () => {
+    const badEvidence = {
+      ...saved,
+      analysis: { ...saved.analysis, riskFactors: [{ ...saved.analysis.riskFactors[0], evidence: 'made-up-study' }] }
+    };
+    expect(() => openSavedReport(toFile(badEvidence))).toThrow('The report file is invalid');
+    expect(() => openSavedReport(toFile({ ...saved, birthDate: '2026-13-40' }))).toThrow('The report file is invalid');
+  });
+});
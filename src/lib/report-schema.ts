@@ -0,0 +1,307 @@
+import { z } from 'zod';
+import { LocationData } from './geolocation';
+import {
+  getModelInfo,
+  ModelInfo,
+  OptimalityReport,
+  OptimalTimingResult,
+  ReportScorePoint
+} from './optimal-timing';
+import { formatCivilDate, parseCivilDate } from './civil-date';
+import { Citation, CitationId, CITATIONS, EVIDENCE_REGISTRY, EvidenceId } from './evidence';
+import { RECOMMENDATION_CATEGORIES, RECOMMENDATION_PRIORITIES, RecommendationId } from './recommendations';
+import { ClimateRegionId } from './environmental-risk';
+import { SCORE_CATEGORIES, ScoringProfileId } from './scoring-profiles';
+import { SolarProviderId } from './solar-data-provider';
+import type { PdfReportContent } from './pdf-report';
+
+// Saved report files (.json) written by the dashboard and the birth report, and read back by "Open report".
+//
+// Layout (schemaVersion 1):
+//   format, schemaVersion  identify the file; readers reject other formats and newer schema versions
+//   source                 'dashboard' or 'birth-report', the view that wrote it
+//   exportedAt             ISO 8601 timestamp
+//   birthDate              civil date 'yyyy-MM-dd' at the location
+//   location               coordinates, place names and IANA time zone
+//   model                  engine and dataset versions, solar data provider and seed; recomputing with these
+//                          reproduces the analysis
+//   scoringProfile         profile the scores were weighted with
+//   analysis               the full result for birthDate: scores, risk factors, recommendations, inputs
+//   summary, monthlyScores, alternatives  range context; dashboard exports only
+//   citations              references behind the risk factors and recommendations
+//
+// Any change that would break an older reader bumps REPORT_SCHEMA_VERSION.
+
+export const REPORT_FORMAT = 'birth-timing-report';
+export const REPORT_SCHEMA_VERSION = 1;
+
+export type ReportSource = 'dashboard' | 'birth-report';
+
+const hasKey = (registry: object, value: unknown): boolean =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(registry, value);
+
+// Evidence ids drive lookups in the registry, so unknown ones are rejected
+const evidenceIdSchema = z.custom<EvidenceId>(value => hasKey(EVIDENCE_REGISTRY, value), 'Unknown evidence id');
+const citationIdSchema = z.custom<CitationId>(value => hasKey(CITATIONS, value), 'Unknown citation id');
+
+// Display-only ids: recommendations from another model version still render from their template
+const recommendationIdSchema = z.custom<RecommendationId>(value => typeof value === 'string');
+const climateRegionSchema = z.custom<ClimateRegionId>(value => typeof value === 'string');
+
+const civilDateSchema = z.iso.date();
+const severitySchema = z.enum(['LOW', 'MEDIUM', 'HIGH']);
+const scoreCategorySchema = z.enum(SCORE_CATEGORIES);
+const categoryRecordSchema = z.record(scoreCategorySchema, z.number());
+const severityThresholdsSchema = z.object({ medium: z.number(), high: z.number() });
+
+const locationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  city: z.string().optional(),
+  country: z.string().optional(),
+  countryCode: z.string().optional(),
+  region: z.string().optional(),
+  regionCode: z.string().optional(),
+  timezone: z.string().optional(),
+  accuracy: z.number().optional()
+});
+
+const modelSchema = z.object({
+  version: z.string(),
+  seed: z.number(),
+  solarProvider: z.enum(['static', 'noaa', 'simulated'] satisfies SolarProviderId[]),
+  datasetVersion: z.string(),
+  environmentalDatasetVersion: z.string(),
+  schoolEntryDatasetVersion: z.string(),
+  lifeExpectancyDatasetVersion: z.string()
+});
+
+const scoringProfileSchema = z.object({
+  id: z.enum(['default', 'seasonal-only', 'evidence-weighted', 'custom'] satisfies ScoringProfileId[]),
+  name: z.string(),
+  description: z.string(),
+  weights: categoryRecordSchema,
+  thresholds: z.object({
+    solarActivity: severityThresholdsSchema,
+    uvExposure: severityThresholdsSchema,
+    vitaminD: severityThresholdsSchema,
+    infection: severityThresholdsSchema,
+    latitude: severityThresholdsSchema,
+    environmental: severityThresholdsSchema
+  }),
+  includedCategories: z.array(scoreCategorySchema),
+  projectionSex: z.enum(['female', 'male', 'unspecified']).optional()
+});
+
+const riskFactorSchema = z.object({
+  category: z.enum(['solar', 'seasonal', 'geographic', 'environmental']),
+  name: z.string(),
+  impact: z.number(),
+  severity: severitySchema,
+  description: z.string(),
+  evidence: evidenceIdSchema,
+  calculation: z.string()
+});
+
+const recommendationSchema = z.object({
+  id: recommendationIdSchema,
+  priority: z.enum(RECOMMENDATION_PRIORITIES),
+  category: z.enum(RECOMMENDATION_CATEGORIES),
+  riskFactor: riskFactorSchema.optional(),
+  template: z.string(),
+  params: z.record(z.string(), z.union([z.string(), z.number()])),
+  evidence: z.array(evidenceIdSchema)
+});
+
+// OptimalTimingResult without the fields carried at the top level of the file
+const analysisSchema = z.object({
+  overallScore: z.number(),
+  lifeExpectancyDelta: z.number(),
+  lifeExpectancyRange: z.object({ low: z.number(), high: z.number() }),
+  baselineLifeExpectancy: z.number(),
+  lifeExpectancyProjection: z.object({
+    years: z.number(),
+    periodYears: z.number(),
+    dataYear: z.number(),
+    birthYear: z.number(),
+    sex: z.enum(['female', 'male', 'unspecified']),
+    countryCode: z.string().optional(),
+    countryName: z.string(),
+    source: z.enum(['country', 'world'])
+  }),
+  categoryScores: categoryRecordSchema,
+  categoryWeights: categoryRecordSchema,
+  confidenceLevel: severitySchema,
+  riskFactors: z.array(riskFactorSchema),
+  recommendations: z.array(recommendationSchema),
+  solarData: z.object({
+    sunspotNumber: z.number(),
+    solarRisk: severitySchema,
+    lifespanImpact: z.number(),
+    mentalHealthMultiplier: z.number(),
+    uvRadiationLevel: z.number(),
+    dataSource: z.enum(['historical', 'reconstructed', 'forecast', 'simulated'])
+  }),
+  seasonalData: z.object({
+    vitaminDScore: z.number(),
+    infectiousRisk: z.number(),
+    relativeAgeAdvantage: z.number(),
+    overallSeasonalScore: z.number()
+  }),
+  environmentalData: z.object({
+    region: climateRegionSchema,
+    regionName: z.string(),
+    pm25: z.number(),
+    pollenIndex: z.number(),
+    heatWaveDays: z.number(),
+    coldStressDays: z.number(),
+    environmentalScore: z.number()
+  })
+});
+
+const citationSchema = z.object({
+  id: citationIdSchema,
+  title: z.string(),
+  authors: z.string(),
+  journal: z.string(),
+  year: z.number(),
+  url: z.string().optional()
+});
+
+export const savedReportSchema = z.object({
+  format: z.literal(REPORT_FORMAT),
+  schemaVersion: z.literal(REPORT_SCHEMA_VERSION),
+  source: z.enum(['dashboard', 'birth-report']),
+  exportedAt: z.iso.datetime(),
+  birthDate: civilDateSchema,
+  location: locationSchema,
+  model: modelSchema,
+  scoringProfile: scoringProfileSchema,
+  analysis: analysisSchema,
+  summary: z.string().optional(),
+  monthlyScores: z.array(z.object({ date: civilDateSchema, score: z.number() })).optional(),
+  alternatives: z.array(z.object({
+    birthDate: civilDateSchema,
+    overallScore: z.number(),
+    lifeExpectancyDelta: z.number()
+  })).optional(),
+  citations: z.array(citationSchema)
+});
+
+export type SavedReport = z.infer<typeof savedReportSchema>;
+
+// A saved report with dates revived, ready for the report views
+export interface OpenedReport {
+  source: ReportSource;
+  exportedAt: Date;
+  location: LocationData;
+  analysis: OptimalTimingResult;
+  summary?: string;
+  monthlyScores?: ReportScorePoint[];
+  alternatives?: { birthDate: Date; overallScore: number; lifeExpectancyDelta: number }[];
+  citations: Citation[];
+  outdatedModelFields: (keyof ModelInfo)[]; // Empty when the current engine would produce the same result
+}
+
+interface SavedReportInput {
+  source: ReportSource;
+  analysis: OptimalTimingResult;
+  citations: Citation[];
+  report?: OptimalityReport; // Range context from generateOptimalityReport
+}
+
+export const buildSavedReport = ({ source, analysis, citations, report }: SavedReportInput): SavedReport => {
+  const { birthDate, location, model, scoringProfile, ...result } = analysis;
+
+  return {
+    format: REPORT_FORMAT,
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    source,
+    exportedAt: new Date().toISOString(),
+    birthDate: formatCivilDate(birthDate),
+    location,
+    model,
+    scoringProfile,
+    analysis: result,
+    summary: report?.summary,
+    monthlyScores: report?.monthlyScores.map(point => ({ date: formatCivilDate(point.date), score: point.score })),
+    alternatives: report?.alternatives.map(alternative => ({
+      birthDate: formatCivilDate(alternative.birthDate),
+      overallScore: alternative.overallScore,
+      lifeExpectancyDelta: alternative.lifeExpectancyDelta
+    })),
+    citations
+  };
+};
+
+// Engine and dataset versions that differ from the running app; the seed is an input, not a version
+export const getOutdatedModelFields = (model: ModelInfo): (keyof ModelInfo)[] => {
+  const current = getModelInfo(model.seed);
+  return (Object.keys(current) as (keyof ModelInfo)[]).filter(field => model[field] !== current[field]);
+};
+
+const toDate = (value: string): Date => {
+  const date = parseCivilDate(value);
+  if (!date) throw new Error(`Invalid date ${value}`);
+  return date;
+};
+
+const describeFormatError = (data: unknown): string | undefined => {
+  if (typeof data !== 'object' || data === null || !('format' in data)) {
+    return 'This file is not a birth timing report';
+  }
+  const { format, schemaVersion } = data as { format?: unknown; schemaVersion?: unknown };
+  if (format !== REPORT_FORMAT) return 'This file is not a birth timing report';
+  if (typeof schemaVersion === 'number' && schemaVersion > REPORT_SCHEMA_VERSION) {
+    return `This report uses schema version ${schemaVersion}; update the app to open it`;
+  }
+  return undefined;
+};
+
+// Parses and validates a saved report file. Throws an Error with a readable message when it can't be opened.
+export const openSavedReport = (json: string): OpenedReport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const formatError = describeFormatError(data);
+  if (formatError) throw new Error(formatError);
+
+  const parsed = savedReportSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`The report file is invalid:\n${z.prettifyError(parsed.error)}`);
+  }
+
+  const saved = parsed.data;
+  return {
+    source: saved.source,
+    exportedAt: new Date(saved.exportedAt),
+    location: saved.location,
+    analysis: {
+      ...saved.analysis,
+      birthDate: toDate(saved.birthDate),
+      location: saved.location,
+      model: saved.model,
+      scoringProfile: saved.scoringProfile
+    },
+    summary: saved.summary,
+    monthlyScores: saved.monthlyScores?.map(point => ({ date: toDate(point.date), score: point.score })),
+    alternatives: saved.alternatives?.map(alternative => ({ ...alternative, birthDate: toDate(alternative.birthDate) })),
+    citations: saved.citations,
+    outdatedModelFields: getOutdatedModelFields(saved.model)
+  };
+};
+
+// The PDF of an opened report shows what the file recorded, not a fresh run on the current engine
+export const getOpenedReportPdfContent = (report: OpenedReport): PdfReportContent => ({
+  analysis: report.analysis,
+  monthlyScores: report.monthlyScores ?? [],
+  alternatives: report.alternatives ?? [],
+  scientificBasis: report.citations
+});
+
+export const getSavedReportFilename = (report: SavedReport): string =>
+  `birth-report-${report.birthDate}-${(report.location.city ?? 'location').replace(/[^\w]+/g, '-')}.json`;
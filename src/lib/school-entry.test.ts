@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getDaysIntoSchoolCohort, getSchoolEntryCutoff, resolveCountryCode } from './school-entry';
+import { calculateRelativeAgeEffect } from './seasonal-risk';
+
+const noon = (year: number, month: number, day: number) => new Date(year, month - 1, day, 12);
+
+const SCOTLAND = { latitude: 55.95, longitude: -3.19, countryCode: 'GB', regionCode: 'GB-SCT', region: 'Scotland' };
+const ENGLAND = { latitude: 51.51, longitude: -0.13, countryCode: 'GB', region: 'England' };
+
+describe('resolveCountryCode', () => {
+  it('accepts codes, names and aliases regardless of case and accents', () => {
+    expect(resolveCountryCode('gb')).toBe('GB');
+    expect(resolveCountryCode('United Kingdom')).toBe('GB');
+    expect(resolveCountryCode('U.S.A.')).toBe('US');
+    expect(resolveCountryCode('Mexico')).toBe('MX');
+    expect(resolveCountryCode('méxico')).toBe('MX');
+    expect(resolveCountryCode('Atlantis')).toBeUndefined();
+    expect(resolveCountryCode(undefined)).toBeUndefined();
+  });
+});
+
+describe('getSchoolEntryCutoff', () => {
+  it('prefers a subdivision matched by ISO code', () => {
+    expect(getSchoolEntryCutoff(SCOTLAND)).toMatchObject({ month: 2, day: 29, subdivisionCode: 'GB-SCT', source: 'subdivision' });
+  });
+
+  it('matches a subdivision by name when there is no code', () => {
+    expect(getSchoolEntryCutoff(ENGLAND)).toMatchObject({ month: 8, day: 31, subdivisionCode: 'GB-ENG', source: 'subdivision' });
+  });
+
+  it('falls back to the country, then to the default', () => {
+    expect(getSchoolEntryCutoff({ latitude: 52.52, longitude: 13.4, country: 'Deutschland' }))
+      .toMatchObject({ month: 6, day: 30, countryCode: 'DE', source: 'country' });
+    expect(getSchoolEntryCutoff({ latitude: 0, longitude: 0 })).toMatchObject({ month: 8, day: 31, source: 'default' });
+  });
+});
+
+describe('getDaysIntoSchoolCohort', () => {
+  const england = getSchoolEntryCutoff(ENGLAND);
+  const scotland = getSchoolEntryCutoff(SCOTLAND);
+
+  it('starts a cohort the day after the cutoff', () => {
+    expect(getDaysIntoSchoolCohort(noon(2023, 9, 1), england)).toEqual({ days: 0, cohortLength: 366 });
+    expect(getDaysIntoSchoolCohort(noon(2024, 8, 31), england)).toEqual({ days: 365, cohortLength: 366 });
+    expect(getDaysIntoSchoolCohort(noon(2024, 9, 1), england)).toEqual({ days: 0, cohortLength: 365 });
+  });
+
+  it('ends a last-day-of-February cohort on 29 February in leap years', () => {
+    expect(getDaysIntoSchoolCohort(noon(2024, 2, 28), scotland)).toEqual({ days: 364, cohortLength: 366 });
+    expect(getDaysIntoSchoolCohort(noon(2024, 2, 29), scotland)).toEqual({ days: 365, cohortLength: 366 });
+    expect(getDaysIntoSchoolCohort(noon(2024, 3, 1), scotland)).toEqual({ days: 0, cohortLength: 365 });
+  });
+
+  it('ends a last-day-of-February cohort on 28 February in other years', () => {
+    expect(getDaysIntoSchoolCohort(noon(2023, 2, 28), scotland)).toEqual({ days: 364, cohortLength: 365 });
+    expect(getDaysIntoSchoolCohort(noon(2023, 3, 1), scotland)).toEqual({ days: 0, cohortLength: 366 });
+  });
+
+  it('makes a leap-day birth the youngest in its Scottish class', () => {
+    expect(calculateRelativeAgeEffect(noon(2024, 2, 29), SCOTLAND)).toBeLessThan(1);
+    expect(calculateRelativeAgeEffect(noon(2024, 3, 1), SCOTLAND)).toBe(100);
+  });
+});
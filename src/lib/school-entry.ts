@@ -0,0 +1,133 @@
+import { addDays, differenceInCalendarDays, getDaysInMonth } from 'date-fns';
+import { LocationData } from './geolocation';
+import schoolEntryData from './data/school-entry-cutoffs.json';
+
+export interface SchoolEntryCutoff {
+  month: number; // 1-12
+  day: number;
+  countryCode?: string;
+  subdivisionCode?: string;
+  source: 'subdivision' | 'country' | 'default';
+}
+
+interface CutoffEntry {
+  name: string;
+  cutoff: string; // MM-DD; 02-29 means the last day of February
+}
+
+interface CountryCutoffEntry extends CutoffEntry {
+  aliases: string[];
+  subdivisions?: Record<string, CutoffEntry>;
+}
+
+const COUNTRIES = schoolEntryData.countries as Record<string, CountryCutoffEntry>;
+
+export const SCHOOL_ENTRY_DATASET_VERSION = schoolEntryData.version;
+
+// Most common cutoff worldwide when the country is unknown
+const DEFAULT_CUTOFF = '08-31';
+
+const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\(the\)/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const COUNTRY_NAME_INDEX = new Map<string, string>();
+for (const [code, country] of Object.entries(COUNTRIES)) {
+  for (const name of [code, country.name, ...country.aliases]) {
+    COUNTRY_NAME_INDEX.set(normalizeName(name), code);
+  }
+}
+
+// Accepts an ISO 3166-1 alpha-2 code or a country name as returned by the geocoders
+export const resolveCountryCode = (country?: string): string | undefined => {
+  if (!country) return undefined;
+  const trimmed = country.trim();
+  if (/^[A-Za-z]{2}$/.test(trimmed) && COUNTRIES[trimmed.toUpperCase()]) {
+    return trimmed.toUpperCase();
+  }
+  return COUNTRY_NAME_INDEX.get(normalizeName(trimmed));
+};
+
+const parseCutoff = (cutoff: string) => {
+  const [month, day] = cutoff.split('-').map(Number);
+  return { month, day };
+};
+
+const findSubdivision = (country: CountryCutoffEntry, location: LocationData) => {
+  if (!country.subdivisions) return undefined;
+
+  const code = location.regionCode?.toUpperCase();
+  if (code && country.subdivisions[code]) {
+    return { code, entry: country.subdivisions[code] };
+  }
+
+  if (location.region) {
+    const region = normalizeName(location.region);
+    const match = Object.entries(country.subdivisions).find(([, entry]) => normalizeName(entry.name) === region);
+    if (match) return { code: match[0], entry: match[1] };
+  }
+
+  return undefined;
+};
+
+// Lookups normalize names, so results are memoized per distinct place
+const cutoffCache = new Map<string, SchoolEntryCutoff>();
+
+export const getSchoolEntryCutoff = (location: LocationData): SchoolEntryCutoff => {
+  const key = [location.countryCode, location.country, location.regionCode, location.region].join('|');
+  const cached = cutoffCache.get(key);
+  if (cached) return cached;
+
+  const cutoff = resolveSchoolEntryCutoff(location);
+  cutoffCache.set(key, cutoff);
+  return cutoff;
+};
+
+const resolveSchoolEntryCutoff = (location: LocationData): SchoolEntryCutoff => {
+  const countryCode = resolveCountryCode(location.countryCode) ?? resolveCountryCode(location.country);
+  const country = countryCode ? COUNTRIES[countryCode] : undefined;
+
+  if (!country) {
+    return { ...parseCutoff(DEFAULT_CUTOFF), source: 'default' };
+  }
+
+  const subdivision = findSubdivision(country, location);
+  if (subdivision) {
+    return {
+      ...parseCutoff(subdivision.entry.cutoff),
+      countryCode,
+      subdivisionCode: subdivision.code,
+      source: 'subdivision'
+    };
+  }
+
+  return { ...parseCutoff(country.cutoff), countryCode, source: 'country' };
+};
+
+// The cutoff in a given year; a day past the end of the month (02-29 outside leap years) is the month's last day
+const getCutoffDate = (year: number, cutoff: SchoolEntryCutoff): Date => {
+  const monthStart = new Date(year, cutoff.month - 1, 1);
+  return new Date(year, cutoff.month - 1, Math.min(cutoff.day, getDaysInMonth(monthStart)));
+};
+
+// Days between the first birthday of a school cohort (the day after the cutoff) and the birth date,
+// together with the length of that cohort year so callers can scale by 365 or 366 days
+export const getDaysIntoSchoolCohort = (birthDate: Date, cutoff: SchoolEntryCutoff) => {
+  const getCohortStart = (year: number) => addDays(getCutoffDate(year, cutoff), 1);
+
+  let startYear = birthDate.getFullYear();
+  if (getCohortStart(startYear) > birthDate) {
+    startYear -= 1;
+  }
+  const cohortStart = getCohortStart(startYear);
+
+  return {
+    days: differenceInCalendarDays(birthDate, cohortStart),
+    cohortLength: differenceInCalendarDays(getCohortStart(startYear + 1), cohortStart)
+  };
+};
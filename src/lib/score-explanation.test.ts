@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { calculateOptimalTiming } from './optimal-timing';
+import { explainScore } from './score-explanation';
+
+const BIRTH_DATE = new Date(2026, 2, 15);
+
+const latitudeLabels = async (latitude: number) => {
+  const result = await calculateOptimalTiming({ latitude, longitude: 0 }, BIRTH_DATE);
+  const { sensitivity } = await explainScore(result);
+  return sensitivity.filter(item => item.kind === 'latitude').map(item => item.label);
+};
+
+describe('latitude sensitivity', () => {
+  it('shifts by 5° either way away from the poles', async () => {
+    expect(await latitudeLabels(48.85)).toEqual(['-5° latitude', '+5° latitude']);
+  });
+
+  it('labels the clamped shift near a pole', async () => {
+    expect(await latitudeLabels(88)).toEqual(['-5° latitude', '+2° latitude']);
+    expect(await latitudeLabels(-87.5)).toEqual(['-2.5° latitude', '+5° latitude']);
+  });
+
+  it('skips the shift past a pole', async () => {
+    expect(await latitudeLabels(90)).toEqual(['-5° latitude']);
+  });
+});
@@ -0,0 +1,97 @@
+import { addMonths } from 'date-fns';
+import { LocationData } from './geolocation';
+import { calculateSeasonalRisk } from './seasonal-risk';
+import { calculateEnvironmentalRisk } from './environmental-risk';
+import {
+  calculateCategoryScores,
+  CategoryScores,
+  combineCategoryScores,
+  getSolarActivity,
+  OptimalTimingResult
+} from './optimal-timing';
+import {
+  SCORE_CATEGORIES,
+  SCORING_PROFILES,
+  ScoreCategory,
+  ScoringProfile
+} from './scoring-profiles';
+
+export interface ScoreContribution {
+  category: ScoreCategory;
+  subscore: number;      // 0-100 before weighting
+  weight: number;        // Effective weight, 0 when the profile excludes the category
+  contribution: number;  // Points added to the overall score (subscore * weight)
+  shortfall: number;     // Points lost against a perfect 100 (100 - subscore) * weight
+}
+
+export interface ScoreSensitivity {
+  kind: 'month' | 'latitude' | 'profile';
+  label: string;
+  score: number;
+  delta: number;         // Change from the explained score
+}
+
+export interface ScoreExplanation {
+  overallScore: number;
+  contributions: ScoreContribution[];
+  rounding: number;      // overallScore minus the unrounded sum of contributions
+  sensitivity: ScoreSensitivity[];
+}
+
+const LATITUDE_STEP = 5;
+
+const getCategoryScores = async (location: LocationData, date: Date, seed: number): Promise<CategoryScores> =>
+  calculateCategoryScores(
+    (await getSolarActivity(date, seed)).lifespanImpact,
+    calculateSeasonalRisk(date, location).overallSeasonalScore,
+    location.latitude,
+    calculateEnvironmentalRisk(date, location).environmentalScore
+  );
+
+const scoreFor = async (location: LocationData, date: Date, seed: number, profile: ScoringProfile): Promise<number> =>
+  combineCategoryScores(await getCategoryScores(location, date, seed), profile);
+
+// Breaks overallScore down into weighted category contributions and reports how far it moves
+// for nearby birth months, nearby latitudes and the other built-in weight profiles
+export const explainScore = async (result: OptimalTimingResult): Promise<ScoreExplanation> => {
+  const { birthDate, location, scoringProfile, overallScore } = result;
+  const seed = result.model.seed;
+  const scores = result.categoryScores;
+  const weights = result.categoryWeights;
+
+  const contributions = SCORE_CATEGORIES.map(category => ({
+    category,
+    subscore: scores[category],
+    weight: weights[category],
+    contribution: scores[category] * weights[category],
+    shortfall: (100 - scores[category]) * weights[category]
+  }));
+  const unrounded = contributions.reduce((sum, item) => sum + item.contribution, 0);
+
+  const sensitivity: ScoreSensitivity[] = [];
+  const addSensitivity = (kind: ScoreSensitivity['kind'], label: string, score: number) =>
+    sensitivity.push({ kind, label, score, delta: score - overallScore });
+
+  for (const months of [-1, 1]) {
+    addSensitivity('month', `${months > 0 ? '+' : ''}${months} month`, await scoreFor(location, addMonths(birthDate, months), seed, scoringProfile));
+  }
+
+  for (const step of [-LATITUDE_STEP, LATITUDE_STEP]) {
+    // Near the poles the step is clamped, so label the shift actually applied
+    const latitude = Math.max(-90, Math.min(90, location.latitude + step));
+    const shift = Math.round((latitude - location.latitude) * 100) / 100;
+    if (shift === 0) continue;
+    addSensitivity('latitude', `${shift > 0 ? '+' : ''}${shift}° latitude`, await scoreFor({ ...location, latitude }, birthDate, seed, scoringProfile));
+  }
+
+  Object.values(SCORING_PROFILES)
+    .filter(profile => profile.id !== scoringProfile.id)
+    .forEach(profile => addSensitivity('profile', `${profile.name} profile`, combineCategoryScores(scores, profile)));
+
+  return {
+    overallScore,
+    contributions,
+    rounding: overallScore - unrounded,
+    sensitivity
+  };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { createCustomProfile, getScoringProfileError, SCORING_PROFILES } from './scoring-profiles';
+
+describe('getScoringProfileError', () => {
+  it('accepts every preset', () => {
+    for (const preset of Object.values(SCORING_PROFILES)) {
+      expect(getScoringProfileError(preset)).toBeUndefined();
+    }
+  });
+
+  it('refuses a profile whose included weights are all zero', () => {
+    const profile = createCustomProfile();
+    profile.includedCategories = ['solar', 'geographic'];
+    profile.weights.solar = 0;
+    profile.weights.geographic = 0;
+    expect(getScoringProfileError(profile)).toBe('At least one included category needs a weight above 0%');
+
+    // Excluded categories do not count, whatever their weight
+    expect(profile.weights.seasonal).toBeGreaterThan(0);
+  });
+
+  it('refuses a medium threshold above the high one', () => {
+    const profile = createCustomProfile();
+    profile.thresholds.infection = { medium: 20, high: 18 };
+    expect(getScoringProfileError(profile)).toBe('The infection medium threshold cannot be above its high threshold');
+
+    profile.thresholds.infection = { medium: 18, high: 18 };
+    expect(getScoringProfileError(profile)).toBeUndefined();
+  });
+});
@@ -0,0 +1,173 @@
+import { ProjectionSex } from './life-expectancy';
+
+export type ScoreCategory = 'solar' | 'seasonal' | 'geographic' | 'environmental';
+
+export type ScoringProfileId = 'default' | 'seasonal-only' | 'evidence-weighted' | 'custom';
+
+// A factor is MEDIUM above `medium` and HIGH above `high` (absolute impact)
+export interface SeverityThresholds {
+  medium: number;
+  high: number;
+}
+
+export interface ProfileThresholds {
+  solarActivity: SeverityThresholds; // Lifespan impact in years
+  uvExposure: SeverityThresholds;
+  vitaminD: SeverityThresholds;
+  infection: SeverityThresholds;
+  latitude: SeverityThresholds;
+  environmental: SeverityThresholds;
+}
+
+export interface ScoringProfile {
+  id: ScoringProfileId;
+  name: string;
+  description: string;
+  weights: Record<ScoreCategory, number>;
+  thresholds: ProfileThresholds;
+  includedCategories: ScoreCategory[];
+  projectionSex?: ProjectionSex; // Sex used for the lifespan projection, 'unspecified' when absent
+}
+
+export const SCORE_CATEGORIES: ScoreCategory[] = ['solar', 'seasonal', 'geographic', 'environmental'];
+
+const DEFAULT_THRESHOLDS: ProfileThresholds = {
+  solarActivity: { medium: 1, high: 3 },
+  uvExposure: { medium: 8, high: 15 },
+  vitaminD: { medium: 8, high: 15 },
+  infection: { medium: 10, high: 18 },
+  latitude: { medium: 15, high: 100 },
+  environmental: { medium: 15, high: 100 }
+};
+
+export const SCORING_PROFILES: Record<Exclude<ScoringProfileId, 'custom'>, ScoringProfile> = {
+  default: {
+    id: 'default',
+    name: 'Default',
+    description: 'Balanced model with solar cycle effects weighted highest',
+    weights: {
+      solar: 0.4,       // Solar cycle impact (most significant)
+      seasonal: 0.35,   // Seasonal birth effects
+      geographic: 0.15, // UV/latitude effects
+      environmental: 0.1 // Air quality, etc.
+    },
+    thresholds: DEFAULT_THRESHOLDS,
+    includedCategories: [...SCORE_CATEGORIES]
+  },
+  'seasonal-only': {
+    id: 'seasonal-only',
+    name: 'Seasonal only',
+    description: 'Scores birth month effects alone, ignoring solar and location factors',
+    weights: { solar: 0, seasonal: 1, geographic: 0, environmental: 0 },
+    thresholds: DEFAULT_THRESHOLDS,
+    includedCategories: ['seasonal']
+  },
+  'evidence-weighted': {
+    id: 'evidence-weighted',
+    name: 'Evidence weighted',
+    description: 'Weights categories by the strength of the supporting research',
+    weights: { solar: 0.1, seasonal: 0.45, geographic: 0.25, environmental: 0.2 },
+    thresholds: DEFAULT_THRESHOLDS,
+    includedCategories: [...SCORE_CATEGORIES]
+  }
+};
+
+export const DEFAULT_SCORING_PROFILE = SCORING_PROFILES.default;
+
+// Starting point for a user-edited profile
+export const createCustomProfile = (base: ScoringProfile = DEFAULT_SCORING_PROFILE): ScoringProfile => ({
+  ...base,
+  id: 'custom',
+  name: 'Custom',
+  description: 'User-defined weights and thresholds',
+  weights: { ...base.weights },
+  thresholds: JSON.parse(JSON.stringify(base.thresholds)) as ProfileThresholds,
+  includedCategories: [...base.includedCategories]
+});
+
+export const getSeverity = (value: number, thresholds: SeverityThresholds): 'LOW' | 'MEDIUM' | 'HIGH' => {
+  const magnitude = Math.abs(value);
+  if (magnitude > thresholds.high) return 'HIGH';
+  if (magnitude > thresholds.medium) return 'MEDIUM';
+  return 'LOW';
+};
+
+// Weights of the included categories, rescaled to sum to 1
+export const getEffectiveWeights = (profile: ScoringProfile): Record<ScoreCategory, number> => {
+  const total = profile.includedCategories.reduce((sum, category) => sum + profile.weights[category], 0);
+
+  return SCORE_CATEGORIES.reduce((weights, category) => {
+    const included = profile.includedCategories.includes(category);
+    weights[category] = included && total > 0 ? profile.weights[category] / total : 0;
+    return weights;
+  }, {} as Record<ScoreCategory, number>);
+};
+
+const THRESHOLD_NAMES: Record<keyof ProfileThresholds, string> = {
+  solarActivity: 'solar activity',
+  uvExposure: 'UV exposure',
+  vitaminD: 'vitamin D',
+  infection: 'infection',
+  latitude: 'latitude',
+  environmental: 'environmental'
+};
+
+// Why a profile cannot be scored with, or undefined when it can: the included weights must leave something
+// to rescale, and each factor must turn MEDIUM no later than HIGH
+export const getScoringProfileError = (profile: ScoringProfile): string | undefined => {
+  if (profile.includedCategories.length === 0) {
+    return 'At least one category must be included';
+  }
+  const weights = profile.includedCategories.map(category => profile.weights[category]);
+  if (weights.some(weight => !Number.isFinite(weight) || weight < 0)) {
+    return 'Category weights must be zero or more';
+  }
+  if (weights.every(weight => weight === 0)) {
+    return 'At least one included category needs a weight above 0%';
+  }
+
+  for (const key of Object.keys(THRESHOLD_NAMES) as (keyof ProfileThresholds)[]) {
+    const { medium, high } = profile.thresholds[key];
+    if (!Number.isFinite(medium) || !Number.isFinite(high) || medium < 0 || high < 0) {
+      return `The ${THRESHOLD_NAMES[key]} thresholds must be zero or more`;
+    }
+    if (medium > high) {
+      return `The ${THRESHOLD_NAMES[key]} medium threshold cannot be above its high threshold`;
+    }
+  }
+  return undefined;
+};
+
+const STORAGE_KEY = 'birth-timing-scoring-profile';
+
+export const loadScoringProfile = (): ScoringProfile => {
+  if (typeof window === 'undefined') return DEFAULT_SCORING_PROFILE;
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SCORING_PROFILE;
+
+    const parsed = JSON.parse(stored) as ScoringProfile;
+    if (parsed.id !== 'custom' && parsed.id in SCORING_PROFILES) {
+      return { ...SCORING_PROFILES[parsed.id], projectionSex: parsed.projectionSex };
+    }
+    if (parsed.id !== 'custom') return DEFAULT_SCORING_PROFILE;
+
+    // A stored profile may predate validation or have been edited by hand
+    const custom = { ...createCustomProfile(), ...parsed };
+    const error = getScoringProfileError(custom);
+    if (error) {
+      console.warn(`Ignoring the stored scoring profile: ${error}`);
+      return DEFAULT_SCORING_PROFILE;
+    }
+    return custom;
+  } catch (error) {
+    console.warn('Failed to load scoring profile:', error);
+    return DEFAULT_SCORING_PROFILE;
+  }
+};
+
+export const saveScoringProfile = (profile: ScoringProfile): void => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+};
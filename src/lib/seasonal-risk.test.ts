@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { addDays } from 'date-fns';
+import { calculateDiseaseRisks, calculateInfectiousRisk } from './seasonal-risk';
+import { calculateEnvironmentalRisk } from './environmental-risk';
+import { calculateUVIntensityByLatitude } from './geolocation';
+
+const at = (latitude: number, longitude: number) => ({ latitude, longitude });
+
+const PARIS = at(48.85, 2.35);
+const MIRRORED_PARIS = at(-48.85, 2.35);
+const OSLO = at(59.91, 10.75);
+const TROMSO = at(69.65, 18.96);
+const BANGKOK = at(13.75, 100.5);
+const DARWIN = at(-12.46, 130.84);
+
+describe('season-aware disease risks', () => {
+  it('mirrors temperate seasons across the equator', () => {
+    const north = calculateDiseaseRisks(new Date(2025, 0, 15), PARIS);
+    const south = calculateDiseaseRisks(new Date(2025, 6, 15), MIRRORED_PARIS);
+    for (const key of Object.keys(north) as (keyof typeof north)[]) {
+      expect(south[key]).toBeCloseTo(north[key], 2);
+    }
+  });
+
+  it('puts the tropical infection peak in the wet season, in either hemisphere', () => {
+    expect(calculateInfectiousRisk(new Date(2025, 7, 15), BANGKOK))
+      .toBeGreaterThan(calculateInfectiousRisk(new Date(2025, 1, 15), BANGKOK));
+    expect(calculateInfectiousRisk(new Date(2025, 0, 15), DARWIN))
+      .toBeGreaterThan(calculateInfectiousRisk(new Date(2025, 6, 15), DARWIN));
+  });
+
+  it('damps winter-linked risks in the tropics', () => {
+    const swing = (location: { latitude: number; longitude: number }) =>
+      calculateDiseaseRisks(new Date(2025, 0, 15), location).cardiovascular -
+      calculateDiseaseRisks(new Date(2025, 6, 15), location).cardiovascular;
+    expect(Math.abs(swing(BANGKOK))).toBeLessThan(Math.abs(swing(PARIS)));
+  });
+
+  it('exaggerates the seasonal extremes during polar night', () => {
+    const january = new Date(2025, 0, 15);
+    expect(calculateDiseaseRisks(january, TROMSO).mentalHealth)
+      .toBeGreaterThan(calculateDiseaseRisks(january, OSLO).mentalHealth);
+  });
+
+  it('changes smoothly across wet/dry season boundaries', () => {
+    let previous = calculateInfectiousRisk(new Date(2025, 0, 1), BANGKOK);
+    for (let day = 1; day < 365; day++) {
+      const value = calculateInfectiousRisk(addDays(new Date(2025, 0, 1), day), BANGKOK);
+      expect(Math.abs(value - previous)).toBeLessThan(0.01);
+      previous = value;
+    }
+  });
+});
+
+describe('season-aware UV intensity', () => {
+  it('mirrors temperate seasons across the equator', () => {
+    expect(calculateUVIntensityByLatitude(MIRRORED_PARIS.latitude, 1))
+      .toBeCloseTo(calculateUVIntensityByLatitude(PARIS.latitude, 7), 6);
+    expect(calculateUVIntensityByLatitude(PARIS.latitude, 7))
+      .toBeGreaterThan(calculateUVIntensityByLatitude(PARIS.latitude, 1));
+  });
+
+  it('drops in the tropical wet season and vanishes in the polar night', () => {
+    expect(calculateUVIntensityByLatitude(BANGKOK.latitude, 8))
+      .toBeLessThan(calculateUVIntensityByLatitude(BANGKOK.latitude, 2));
+    expect(calculateUVIntensityByLatitude(TROMSO.latitude, 12.5)).toBe(0);
+  });
+});
+
+describe('season-aware environmental tables', () => {
+  it('aligns the southern tropical dry season with the northern one', () => {
+    const wet = calculateEnvironmentalRisk(new Date(2025, 0, 15), DARWIN);
+    const dry = calculateEnvironmentalRisk(new Date(2025, 6, 15), DARWIN);
+    expect(wet.region).toBe('tropical');
+    expect(dry.pm25).toBeGreaterThan(wet.pm25);
+  });
+
+  it('gives southern temperate winters the winter values', () => {
+    const sydney = at(-33.87, 151.21);
+    const january = calculateEnvironmentalRisk(new Date(2025, 0, 15), sydney);
+    const july = calculateEnvironmentalRisk(new Date(2025, 6, 15), sydney);
+    expect(july.coldStressDays).toBeGreaterThan(january.coldStressDays);
+    expect(january.heatWaveDays).toBeGreaterThan(july.heatWaveDays);
+  });
+});
@@ -1,5 +1,14 @@
 import { getMonth, getDate, addMonths, format } from 'date-fns';
-import { LocationData, isNorthernHemisphere, calculateUVIntensityByLatitude } from './geolocation';
+import { LocationData, calculateUVIntensityByLatitude } from './geolocation';
+import {
+  getFractionalMonth,
+  getSeasonalMonthTable,
+  interpolateMonthly,
+  SeasonClassification
+} from './climate';
+import { getSchoolEntryCutoff, getDaysIntoSchoolCohort, SchoolEntryCutoff } from './school-entry';
+import { createRecommendation, Recommendation } from './recommendations';
+import { EvidenceId } from './evidence';
 
 export interface SeasonalRiskData {
   birthMonth: number;
@@ -21,6 +30,15 @@ export interface DiseaseRiskByMonth {
   infectious: number;
 }
 
+// Evidence registry entry behind each column of the disease risk table
+export const DISEASE_RISK_EVIDENCE: Record<keyof DiseaseRiskByMonth, EvidenceId> = {
+  cardiovascular: 'birth-month-cardiovascular',
+  mentalHealth: 'birth-month-mental-health',
+  autoimmune: 'birth-month-autoimmune',
+  respiratory: 'birth-month-respiratory',
+  infectious: 'birth-month-infectious'
+};
+
 // Research-based disease risk by birth month (Northern Hemisphere)
 const NORTHERN_HEMISPHERE_DISEASE_RISKS: Record<number, DiseaseRiskByMonth> = {
   1: { cardiovascular: 1.06, mentalHealth: 1.08, autoimmune: 0.94, respiratory: 1.12, infectious: 1.15 }, // January
@@ -37,8 +55,74 @@ const NORTHERN_HEMISPHERE_DISEASE_RISKS: Record<number, DiseaseRiskByMonth> = {
   12: { cardiovascular: 1.05, mentalHealth: 1.06, autoimmune: 0.96, respiratory: 1.10, infectious: 1.10 }  // December
 };
 
+// In the tropics the rains, not winter, set infection seasonality, and the winter-linked risks barely vary
+const TROPICAL_SEASONALITY = 0.3;
+const WET_SEASON_INFECTION = { respiratory: 1.08, infectious: 1.12 };
+const DRY_SEASON_INFECTION = { respiratory: 0.95, infectious: 0.92 };
+
+// Months of continuous darkness or daylight exaggerate the winter and summer extremes of the table
+const POLAR_SEASONALITY = 1.5;
+
+const scaleSeasonality = (risks: DiseaseRiskByMonth, factor: number): DiseaseRiskByMonth => ({
+  cardiovascular: 1 + (risks.cardiovascular - 1) * factor,
+  mentalHealth: 1 + (risks.mentalHealth - 1) * factor,
+  autoimmune: 1 + (risks.autoimmune - 1) * factor,
+  respiratory: 1 + (risks.respiratory - 1) * factor,
+  infectious: 1 + (risks.infectious - 1) * factor
+});
+
+const getDiseaseRisksForSeason = (classification: SeasonClassification): DiseaseRiskByMonth => {
+  const table = NORTHERN_HEMISPHERE_DISEASE_RISKS[classification.northernEquivalentMonth];
+  
+  switch (classification.season) {
+    case 'wet':
+      return { ...scaleSeasonality(table, TROPICAL_SEASONALITY), ...WET_SEASON_INFECTION };
+    case 'dry':
+      return { ...scaleSeasonality(table, TROPICAL_SEASONALITY), ...DRY_SEASON_INFECTION };
+    case 'polar-night':
+    case 'midnight-sun':
+      return scaleSeasonality(table, POLAR_SEASONALITY);
+    default:
+      return table;
+  }
+};
+
+// Disease risk multipliers for each calendar month, from the location's season in that month
+const getMonthlyDiseaseRisks = (location: LocationData): DiseaseRiskByMonth[] =>
+  getSeasonalMonthTable(location.latitude, getDiseaseRisksForSeason);
+
+// Interpolated by day of year between the monthly values
+const interpolateDiseaseRisks = (months: DiseaseRiskByMonth[], position: number): DiseaseRiskByMonth => {
+  const column = (key: keyof DiseaseRiskByMonth) => interpolateMonthly(months.map(risks => risks[key]), position);
+  
+  return {
+    cardiovascular: column('cardiovascular'),
+    mentalHealth: column('mentalHealth'),
+    autoimmune: column('autoimmune'),
+    respiratory: column('respiratory'),
+    infectious: column('infectious')
+  };
+};
+
+const getDiseaseRisks = (birthDate: Date, location: LocationData): DiseaseRiskByMonth =>
+  interpolateDiseaseRisks(getMonthlyDiseaseRisks(location), getFractionalMonth(birthDate));
+
+// Inputs of calculateSeasonalRisk that depend only on the location, plus a memo of the ones that depend only
+// on the time of year. Reuse one context for every date at a location (see evaluateTimingGrid).
+export interface SeasonalRiskContext {
+  monthlyDiseaseRisks: DiseaseRiskByMonth[];
+  schoolEntryCutoff: SchoolEntryCutoff;
+  byFractionalMonth: Map<number, { vitaminDScore: number; diseaseRisks: DiseaseRiskByMonth }>;
+}
+
+export const createSeasonalRiskContext = (location: LocationData): SeasonalRiskContext => ({
+  monthlyDiseaseRisks: getMonthlyDiseaseRisks(location),
+  schoolEntryCutoff: getSchoolEntryCutoff(location),
+  byFractionalMonth: new Map()
+});
+
 export const calculateVitaminDSynthesis = (location: LocationData, birthDate: Date): number => {
-  const birthMonth = getMonth(birthDate) + 1; // getMonth() returns 0-11, we need 1-12
+  const birthMonth = getFractionalMonth(birthDate); // Continuous 1-12 position, so adjacent days score alike
   const { latitude } = location;
   
   // Calculate UV intensity for the location and birth month
@@ -59,67 +143,45 @@ export const calculateVitaminDSynthesis = (location: LocationData, birthDate: Da
   return Math.max(0, Math.min(100, averageCriticalUV * 10));
 };
 
-export const calculateInfectiousRisk = (birthDate: Date, location: LocationData): number => {
-  const birthMonth = getMonth(birthDate) + 1;
-  const isNorthern = isNorthernHemisphere(location.latitude);
-  
-  // Adjust for hemisphere
-  const adjustedMonth = isNorthern ? birthMonth : ((birthMonth + 5) % 12) + 1;
-  
-  const riskData = NORTHERN_HEMISPHERE_DISEASE_RISKS[adjustedMonth];
-  return riskData.infectious;
-};
+export const calculateInfectiousRisk = (birthDate: Date, location: LocationData): number =>
+  getDiseaseRisks(birthDate, location).infectious;
 
-export const calculateRelativeAgeEffect = (birthDate: Date, country: string = 'US'): number => {
-  const birthMonth = getMonth(birthDate) + 1;
-  
-  // School year cutoffs vary by country
-  const schoolYearCutoffs: Record<string, number> = {
-    'US': 9,        // September 1st
-    'UK': 9,        // September 1st  
-    'Canada': 9,    // September 1st
-    'Australia': 1, // January 1st (Southern hemisphere)
-    'Germany': 6,   // June/July
-    'France': 9,    // September
-    'Japan': 4,     // April
-    'default': 9
-  };
-  
-  const cutoffMonth = schoolYearCutoffs[country] || schoolYearCutoffs['default'];
-  
-  // Calculate relative age advantage (closer to cutoff = older in class)
-  const monthsFromCutoff = (birthMonth - cutoffMonth + 12) % 12;
+export const calculateRelativeAgeEffect = (
+  birthDate: Date,
+  location: LocationData,
+  cutoff: SchoolEntryCutoff = getSchoolEntryCutoff(location) // Bundled dataset, with state and province overrides
+): number => {
+  const { days, cohortLength } = getDaysIntoSchoolCohort(birthDate, cutoff);
   
-  // Score from 0-100, with births just after cutoff getting highest scores
-  return Math.max(0, 100 - (monthsFromCutoff * 8.33)); // 8.33 points per month
+  // Score from 0-100, with births just after the cutoff (oldest in class) getting the highest scores
+  return Math.max(0, 100 - (days / cohortLength) * 100);
 };
 
-export const calculateDiseaseRisks = (birthDate: Date, location: LocationData) => {
-  const birthMonth = getMonth(birthDate) + 1;
-  const isNorthern = isNorthernHemisphere(location.latitude);
-  
-  // Adjust for hemisphere (seasons are opposite)
-  const adjustedMonth = isNorthern ? birthMonth : ((birthMonth + 5) % 12) + 1;
-  
-  const riskData = NORTHERN_HEMISPHERE_DISEASE_RISKS[adjustedMonth];
-  
-  return {
-    cardiovascular: riskData.cardiovascular,
-    mentalHealth: riskData.mentalHealth,
-    autoimmune: riskData.autoimmune,
-    respiratory: riskData.respiratory,
-    infectious: riskData.infectious
-  };
-};
+// Seasons come from classifySeason: flipped south of the equator, wet/dry in the tropics, polar night and day
+export const calculateDiseaseRisks = (birthDate: Date, location: LocationData): DiseaseRiskByMonth =>
+  getDiseaseRisks(birthDate, location);
 
-export const calculateSeasonalRisk = (birthDate: Date, location: LocationData): SeasonalRiskData => {
+export const calculateSeasonalRisk = (
+  birthDate: Date,
+  location: LocationData,
+  context: SeasonalRiskContext = createSeasonalRiskContext(location) // Pass to share work across dates
+): SeasonalRiskData => {
   const birthMonth = getMonth(birthDate) + 1;
   
-  // Calculate individual risk factors
-  const vitaminDScore = calculateVitaminDSynthesis(location, birthDate);
-  const infectiousRisk = calculateInfectiousRisk(birthDate, location);
-  const relativeAgeAdvantage = calculateRelativeAgeEffect(birthDate, location.country);
-  const diseaseRisks = calculateDiseaseRisks(birthDate, location);
+  // Vitamin D and disease risks depend only on the time of year
+  const position = getFractionalMonth(birthDate);
+  let seasonal = context.byFractionalMonth.get(position);
+  if (!seasonal) {
+    seasonal = {
+      vitaminDScore: calculateVitaminDSynthesis(location, birthDate),
+      diseaseRisks: interpolateDiseaseRisks(context.monthlyDiseaseRisks, position)
+    };
+    context.byFractionalMonth.set(position, seasonal);
+  }
+  
+  const { vitaminDScore, diseaseRisks } = seasonal;
+  const infectiousRisk = diseaseRisks.infectious;
+  const relativeAgeAdvantage = calculateRelativeAgeEffect(birthDate, location, context.schoolEntryCutoff);
   
   // Normalize risks to 0-100 scale (lower is better)
   const normalizedInfectiousRisk = Math.max(0, (infectiousRisk - 0.8) * 500); // 0.8-1.2 -> 0-200, clamped to 0-100
@@ -171,28 +233,31 @@ export const getOptimalBirthMonths = (location: LocationData): number[] => {
   return monthScores.slice(0, 3).map(item => item.month);
 };
 
-export const getSeasonalRecommendations = (birthDate: Date, location: LocationData): string[] => {
-  const seasonalRisk = calculateSeasonalRisk(birthDate, location);
-  const recommendations: string[] = [];
+export const getSeasonalRecommendations = (
+  birthDate: Date,
+  location: LocationData,
+  seasonalRisk: SeasonalRiskData = calculateSeasonalRisk(birthDate, location) // Pass when already computed
+): Recommendation[] => {
+  const recommendations: Recommendation[] = [];
   
   if (seasonalRisk.vitaminDScore < 50) {
-    recommendations.push("Consider vitamin D supplementation during pregnancy and early infancy");
+    recommendations.push(createRecommendation('seasonal-vitamin-d'));
   }
   
   if (seasonalRisk.infectiousRisk > 70) {
-    recommendations.push("Take extra precautions against infections during the first 6 months");
+    recommendations.push(createRecommendation('seasonal-infection'));
   }
   
   if (seasonalRisk.relativeAgeAdvantage < 30) {
-    recommendations.push("Child may benefit from delayed school entry or summer programs");
+    recommendations.push(createRecommendation('seasonal-school-entry'));
   }
   
   if (seasonalRisk.cardiovascularRisk > 60) {
-    recommendations.push("Monitor cardiovascular health markers throughout life");
+    recommendations.push(createRecommendation('seasonal-cardiovascular'));
   }
   
   if (seasonalRisk.mentalHealthRisk > 60) {
-    recommendations.push("Be aware of increased mental health risks and ensure good support systems");
+    recommendations.push(createRecommendation('seasonal-mental-health'));
   }
   
   return recommendations;
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, addMonths, eachDayOfInterval } from 'date-fns';
+import sunspotDataset from './data/sunspot-monthly.json';
+import {
+  calculateSolarActivityData,
+  calculateSunspotNumber,
+  DEFAULT_SOLAR_SEED,
+  getSunspotForecastRange,
+  SOLAR_MODEL_VERSION,
+  solarNoise
+} from './solar-cycle';
+import { calculateOptimalTiming } from './optimal-timing';
+
+const LOCATION = { latitude: 40.71, longitude: -74.01, city: 'New York', country: 'United States', countryCode: 'US' };
+
+// Beyond the bundled dataset, where the seeded noise applies
+const FORECAST_DATE = new Date(2029, 4, 10, 12);
+
+describe('solarNoise', () => {
+  it('is a pure function of calendar date, seed and channel', () => {
+    const date = new Date(2031, 2, 14, 12);
+    expect(solarNoise(date, 7, 1)).toBe(solarNoise(new Date(2031, 2, 14, 12), 7, 1));
+    expect(solarNoise(new Date(2031, 2, 14, 0, 5))).toBe(solarNoise(new Date(2031, 2, 14, 23, 55)));
+  });
+
+  it('stays within [-0.5, 0.5)', () => {
+    for (let day = 0; day < 720; day += 3) {
+      const value = solarNoise(addDays(FORECAST_DATE, day), 42);
+      expect(value).toBeGreaterThanOrEqual(-0.5);
+      expect(value).toBeLessThan(0.5);
+    }
+  });
+
+  it('varies smoothly from day to day', () => {
+    let previous = solarNoise(FORECAST_DATE);
+    for (let day = 1; day < 365; day++) {
+      const value = solarNoise(addDays(FORECAST_DATE, day));
+      // Cosine easing between knots 30 days apart changes by at most pi/60 per day
+      expect(Math.abs(value - previous)).toBeLessThanOrEqual(Math.PI / 60 + 1e-9);
+      previous = value;
+    }
+  });
+
+  it('differs between seeds and channels', () => {
+    const dates = Array.from({ length: 12 }, (_, i) => addDays(FORECAST_DATE, i * 30));
+    const series = (seed: number, channel: number) => dates.map(date => solarNoise(date, seed, channel));
+    expect(series(1, 0)).not.toEqual(series(2, 0));
+    expect(series(1, 0)).not.toEqual(series(1, 1));
+  });
+});
+
+describe('seeded solar activity', () => {
+  it('gives the same activity for the same date and seed', () => {
+    expect(calculateSolarActivityData(FORECAST_DATE, 5)).toEqual(calculateSolarActivityData(new Date(FORECAST_DATE), 5));
+  });
+
+  it('stamps the seed and model version on each record', () => {
+    const activity = calculateSolarActivityData(FORECAST_DATE, 5);
+    expect(activity.seed).toBe(5);
+    expect(activity.modelVersion).toBe(SOLAR_MODEL_VERSION);
+  });
+
+  it('changes forecast sunspot numbers with the seed', () => {
+    const numbers = new Set([1, 2, 3, 4, 5].map(seed => calculateSunspotNumber(FORECAST_DATE, seed)));
+    expect(numbers.size).toBeGreaterThan(1);
+  });
+
+  it('reproduces a timing result from its recorded seed', async () => {
+    const first = await calculateOptimalTiming(LOCATION, FORECAST_DATE, 24, { seed: 23 });
+    const again = await calculateOptimalTiming(LOCATION, FORECAST_DATE, 24, { seed: first.model.seed });
+    expect(again).toEqual(first);
+    expect(first.model.seed).toBe(23);
+
+    const defaultSeed = await calculateOptimalTiming(LOCATION, FORECAST_DATE);
+    expect(defaultSeed.model.seed).toBe(DEFAULT_SOLAR_SEED);
+  });
+});
+
+describe('forecast continuity', () => {
+  const [lastYear, lastMonth] = sunspotDataset.lastMonth.split('-').map(Number);
+  // First day without a dataset value
+  const forecastStart = new Date(lastYear, lastMonth, 1, 12);
+  const boundaryDays = eachDayOfInterval({ start: addDays(forecastStart, -45), end: addDays(forecastStart, 45) })
+    .map(date => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12));
+
+  it('switches from dataset to forecast data after the last dataset month', () => {
+    expect(calculateSolarActivityData(addDays(forecastStart, -1)).dataSource)
+      .toBe(sunspotDataset.observed ? 'historical' : 'reconstructed');
+    expect(calculateSolarActivityData(forecastStart).dataSource).toBe('forecast');
+  });
+
+  it('has no step in sunspot number or lifespan impact at the boundary', () => {
+    for (const seed of [DEFAULT_SOLAR_SEED, 1, 99]) {
+      const series = boundaryDays.map(date => calculateSolarActivityData(date, seed));
+      for (let i = 1; i < series.length; i++) {
+        expect(Math.abs(series[i].sunspotNumber - series[i - 1].sunspotNumber)).toBeLessThanOrEqual(1);
+        expect(Math.abs(series[i].lifespanImpact - series[i - 1].lifespanImpact)).toBeLessThanOrEqual(0.11);
+      }
+    }
+  });
+
+  it('widens the uncertainty band from zero at the boundary', () => {
+    const width = (date: Date) => {
+      const { low, high } = getSunspotForecastRange(date);
+      return high - low;
+    };
+    expect(width(forecastStart)).toBeLessThan(1);
+    expect(width(addMonths(forecastStart, 6))).toBeGreaterThan(width(forecastStart));
+    expect(width(addMonths(forecastStart, 36))).toBeGreaterThan(width(addMonths(forecastStart, 6)));
+  });
+
+  it('keeps forecast values inside their ranges', () => {
+    for (let months = 0; months < 60; months += 3) {
+      const activity = calculateSolarActivityData(addMonths(forecastStart, months));
+      expect(activity.sunspotRange.low).toBeLessThanOrEqual(activity.sunspotNumber);
+      expect(activity.sunspotRange.high).toBeGreaterThanOrEqual(activity.sunspotNumber);
+      expect(activity.lifespanImpactRange.low).toBeLessThanOrEqual(activity.lifespanImpact);
+      expect(activity.lifespanImpactRange.high).toBeGreaterThanOrEqual(activity.lifespanImpact);
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { ChildProcess, spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import observed from '../../fixtures/swpc/observed-solar-cycle-indices.json';
+import predicted from '../../fixtures/swpc/predicted-solar-cycle.json';
+import { configureSolarData, fetchSolarActivityData } from './solar-data-provider';
+import { calculateSolarActivityData } from './solar-cycle';
+import { calculateOptimalTiming } from './optimal-timing';
+import { evaluateTimingGrid } from './timing-grid';
+
+const SERVER_SCRIPT = fileURLToPath(new URL('../../scripts/solar-fixture-server.mjs', import.meta.url));
+
+const LOCATION = { latitude: 51.51, longitude: -0.13, city: 'London', country: 'United Kingdom', countryCode: 'GB' };
+
+const observedSsn = (timeTag: string) => Math.round(observed.find(record => record['time-tag'] === timeTag)!.ssn);
+const predictedSsn = (timeTag: string) =>
+  Math.round(predicted.find(record => record['time-tag'] === timeTag)!.predicted_ssn);
+
+let server: ChildProcess;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = spawn(process.execPath, [SERVER_SCRIPT], { env: { ...process.env, PORT: '0' } });
+  baseUrl = await new Promise<string>((resolve, reject) => {
+    server.stdout!.on('data', chunk => {
+      const match = /http:\/\/localhost:\d+/.exec(String(chunk));
+      if (match) resolve(match[0]);
+    });
+    server.once('error', reject);
+    server.once('exit', code => reject(new Error(`Fixture server exited with code ${code}`)));
+  });
+});
+
+afterAll(() => {
+  server.kill();
+  configureSolarData({ provider: 'static' });
+});
+
+describe('NOAA solar data provider against the SWPC fixture server', () => {
+  beforeAll(() => {
+    configureSolarData({ provider: 'noaa', noaaBaseUrl: baseUrl });
+  });
+
+  it('uses observed indices for past months', async () => {
+    const activity = await fetchSolarActivityData(new Date(2019, 11, 15, 12));
+    expect(activity.dataSource).toBe('historical');
+    expect(activity.sunspotNumber).toBe(observedSsn('2019-12'));
+  });
+
+  it('uses the predicted cycle, with its range, beyond the observations', async () => {
+    const activity = await fetchSolarActivityData(new Date(2027, 2, 15, 12));
+    const record = predicted.find(entry => entry['time-tag'] === '2027-03')!;
+    expect(activity.dataSource).toBe('forecast');
+    expect(activity.sunspotNumber).toBe(predictedSsn('2027-03'));
+    expect(activity.sunspotRange).toEqual({ low: Math.round(record.low_ssn), high: Math.round(record.high_ssn) });
+  });
+
+  it('falls back to the bundled dataset outside the SWPC series', async () => {
+    const date = new Date(2035, 5, 15, 12);
+    expect(await fetchSolarActivityData(date)).toEqual(calculateSolarActivityData(date));
+  });
+
+  it('feeds the timing engine', async () => {
+    // The bundled dataset disagrees for this month, so a match can only come from the provider
+    const date = new Date(2022, 6, 1);
+    expect(calculateSolarActivityData(date).sunspotNumber).not.toBe(observedSsn('2022-07'));
+
+    const result = await calculateOptimalTiming(LOCATION, date);
+    expect(result.solarData.sunspotNumber).toBe(observedSsn('2022-07'));
+
+    const dates = [new Date(2019, 11, 15, 12), new Date(2027, 2, 15, 12)];
+    const grid = await evaluateTimingGrid([LOCATION], dates);
+    const impacts = await Promise.all(dates.map(date => fetchSolarActivityData(date)));
+    expect(Array.from(grid.lifeExpectancyDelta)).toEqual(impacts.map(activity => Math.fround(activity.lifespanImpact)));
+  });
+});
+
+describe('NOAA solar data provider with the service unreachable', () => {
+  it('falls back to the bundled dataset', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    configureSolarData({ provider: 'noaa', noaaBaseUrl: 'http://127.0.0.1:9' });
+
+    const date = new Date(2019, 11, 15, 12);
+    expect(await fetchSolarActivityData(date)).toEqual(calculateSolarActivityData(date));
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('serves the fallback without retrying until the retry delay has passed', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    configureSolarData({ provider: 'noaa', noaaBaseUrl: 'http://127.0.0.1:9', noaaRetryMs: 60_000 });
+
+    const dates = [new Date(2019, 10, 15, 12), new Date(2019, 11, 15, 12), new Date(2020, 0, 15, 12)];
+    await Promise.all(dates.map(date => fetchSolarActivityData(date)));
+    const requests = fetchSpy.mock.calls.length;
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    const later = new Date(2020, 1, 15, 12);
+    expect(await fetchSolarActivityData(later)).toEqual(calculateSolarActivityData(later));
+    expect(fetchSpy).toHaveBeenCalledTimes(requests);
+
+    vi.advanceTimersByTime(60_000);
+    await fetchSolarActivityData(new Date(2020, 2, 15, 12));
+    expect(fetchSpy.mock.calls.length).toBeGreaterThan(requests);
+    expect(warn).toHaveBeenCalledTimes(2);
+
+    vi.useRealTimers();
+    fetchSpy.mockRestore();
+    warn.mockRestore();
+  });
+});
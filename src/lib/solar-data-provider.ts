@@ -0,0 +1,185 @@
+import { format, getMonth, getYear } from 'date-fns';
+import {
+  SolarActivityData,
+  DEFAULT_SOLAR_SEED,
+  buildSolarActivityData,
+  calculateSolarActivityData,
+  calculateModelSunspotNumber
+} from './solar-cycle';
+import { TTLCache } from './ttl-cache';
+
+export type SolarProviderId = 'static' | 'noaa' | 'simulated';
+
+export interface SolarDataProvider {
+  id: SolarProviderId;
+  getSolarActivity: (date: Date, seed: number) => Promise<SolarActivityData>;
+}
+
+export interface SolarDataConfig {
+  provider: SolarProviderId;
+  noaaBaseUrl: string;
+  noaaRetryMs: number; // After a failed SWPC request, serve the fallback for this long before trying again
+  cacheTtlMs: number;
+  cacheMaxEntries: number;
+}
+
+// Monthly record from SWPC observed-solar-cycle-indices.json
+export interface SWPCObservedIndex {
+  'time-tag': string; // yyyy-MM
+  ssn: number;
+  smoothed_ssn: number;
+  'f10.7': number;
+  'smoothed_f10.7': number;
+}
+
+// Monthly record from SWPC predicted-solar-cycle.json
+export interface SWPCPredictedIndex {
+  'time-tag': string; // yyyy-MM
+  predicted_ssn: number;
+  high_ssn: number;
+  low_ssn: number;
+  'predicted_f10.7': number;
+}
+
+const DEFAULT_CONFIG: SolarDataConfig = {
+  provider: parseProviderId(process.env.NEXT_PUBLIC_SOLAR_DATA_PROVIDER),
+  noaaBaseUrl: process.env.NEXT_PUBLIC_SOLAR_DATA_URL || 'https://services.swpc.noaa.gov',
+  noaaRetryMs: 10 * 60 * 1000, // 10 minutes
+  cacheTtlMs: 6 * 60 * 60 * 1000, // 6 hours
+  cacheMaxEntries: 4096 // Enough for a daily range either side of a date
+};
+
+function parseProviderId(value: string | undefined): SolarProviderId {
+  return value === 'noaa' || value === 'simulated' ? value : 'static';
+}
+
+// Bundled monthly dataset for past dates, model forecast beyond it
+export const createStaticSolarProvider = (): SolarDataProvider => ({
+  id: 'static',
+  getSolarActivity: async (date, seed) => calculateSolarActivityData(date, seed)
+});
+
+// Pure synthetic cycle model, ignoring any recorded data
+export const createSimulatedSolarProvider = (): SolarDataProvider => ({
+  id: 'simulated',
+  getSolarActivity: async (date, seed) =>
+    buildSolarActivityData(date, calculateModelSunspotNumber(date, seed), seed, 'simulated')
+});
+
+// Speaks the NOAA SWPC solar-cycle JSON format; baseUrl can point at a local fixture server.
+// A failed request is remembered for retryMs, so lookups in the meantime go straight to the fallback.
+export const createNOAASolarProvider = (
+  baseUrl: string,
+  fallback: SolarDataProvider = createStaticSolarProvider(),
+  retryMs: number = DEFAULT_CONFIG.noaaRetryMs
+): SolarDataProvider => {
+  let observed: Promise<Map<string, SWPCObservedIndex>> | undefined;
+  let predicted: Promise<Map<string, SWPCPredictedIndex>> | undefined;
+  let retryAt = 0;
+
+  const loadSeries = async <T extends { 'time-tag': string }>(path: string): Promise<Map<string, T>> => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`);
+    if (!response.ok) {
+      throw new Error(`SWPC request failed: ${response.status}`);
+    }
+
+    const records = (await response.json()) as T[];
+    return new Map(records.map(record => [record['time-tag'], record]));
+  };
+
+  return {
+    id: 'noaa',
+    getSolarActivity: async (date, seed) => {
+      if (Date.now() < retryAt) {
+        return fallback.getSolarActivity(date, seed);
+      }
+      const timeTag = `${getYear(date)}-${String(getMonth(date) + 1).padStart(2, '0')}`;
+
+      try {
+        observed ??= loadSeries<SWPCObservedIndex>('/json/solar-cycle/observed-solar-cycle-indices.json');
+        const observedRecord = (await observed).get(timeTag);
+        if (observedRecord && observedRecord.ssn >= 0) {
+          const flux = observedRecord['f10.7'] >= 0 ? observedRecord['f10.7'] : undefined;
+          return buildSolarActivityData(date, Math.round(observedRecord.ssn), seed, 'historical', flux);
+        }
+
+        predicted ??= loadSeries<SWPCPredictedIndex>('/json/solar-cycle/predicted-solar-cycle.json');
+        const predictedRecord = (await predicted).get(timeTag);
+        if (predictedRecord) {
+          return buildSolarActivityData(
+            date,
+            Math.round(predictedRecord.predicted_ssn),
+            seed,
+            'forecast',
+            predictedRecord['predicted_f10.7'],
+            { low: Math.round(predictedRecord.low_ssn), high: Math.round(predictedRecord.high_ssn) }
+          );
+        }
+      } catch (error) {
+        // Lookups waiting on the same request all fail together; only the first one reports it
+        if (Date.now() >= retryAt) {
+          console.warn(`Failed to fetch NOAA solar data, using the fallback for ${Math.round(retryMs / 1000)}s:`, error);
+          retryAt = Date.now() + retryMs;
+        }
+        observed = undefined;
+        predicted = undefined;
+      }
+
+      return fallback.getSolarActivity(date, seed);
+    }
+  };
+};
+
+let config: SolarDataConfig = { ...DEFAULT_CONFIG };
+let activeProvider: SolarDataProvider | undefined;
+let solarDataCache = new TTLCache<SolarActivityData>(config.cacheTtlMs, config.cacheMaxEntries);
+
+const createProvider = (settings: SolarDataConfig): SolarDataProvider => {
+  switch (settings.provider) {
+    case 'noaa':
+      return createNOAASolarProvider(settings.noaaBaseUrl, createStaticSolarProvider(), settings.noaaRetryMs);
+    case 'simulated':
+      return createSimulatedSolarProvider();
+    default:
+      return createStaticSolarProvider();
+  }
+};
+
+export const configureSolarData = (overrides: Partial<SolarDataConfig>): SolarDataConfig => {
+  config = { ...config, ...overrides };
+  activeProvider = undefined;
+  solarDataCache = new TTLCache<SolarActivityData>(config.cacheTtlMs, config.cacheMaxEntries);
+  return config;
+};
+
+export const getSolarDataConfig = (): SolarDataConfig => ({ ...config });
+
+export const getSolarDataProvider = (): SolarDataProvider => {
+  activeProvider ??= createProvider(config);
+  return activeProvider;
+};
+
+// Solar activity from the configured provider, cached per provider, date and seed. Every engine lookup goes through here.
+export const fetchSolarActivityData = async (
+  date?: Date,
+  seed: number = DEFAULT_SOLAR_SEED
+): Promise<SolarActivityData> => {
+  const provider = getSolarDataProvider();
+  const dateKey = `${provider.id}:${date ? format(date, 'yyyy-MM-dd') : 'current'}:${seed}`;
+
+  const cached = solarDataCache.get(dateKey);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const data = await provider.getSolarActivity(date || new Date(), seed);
+    solarDataCache.set(dateKey, data);
+    return data;
+  } catch (error) {
+    console.warn('Failed to fetch solar data:', error);
+
+    // Fallback to calculated data
+    return calculateSolarActivityData(date || new Date(), seed);
+  }
+};
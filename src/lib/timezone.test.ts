@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { lookupTimezone } from './timezone';
+
+describe('lookupTimezone', () => {
+  it('splits Central and Eastern time along state and county lines', async () => {
+    expect(await lookupTimezone(30.44, -84.28)).toBe('America/New_York'); // Tallahassee
+    expect(await lookupTimezone(30.16, -85.66)).toBe('America/Chicago'); // Panama City, Florida
+    expect(await lookupTimezone(42.33, -83.05)).toBe('America/Detroit');
+    expect(await lookupTimezone(41.88, -87.63)).toBe('America/Chicago');
+  });
+
+  it('keeps Indiana and Kentucky zones apart from their neighbours', async () => {
+    expect(await lookupTimezone(39.77, -86.16)).toBe('America/Indiana/Indianapolis');
+    expect(await lookupTimezone(41.59, -87.35)).toBe('America/Chicago'); // Gary
+    expect(await lookupTimezone(37.97, -87.56)).toBe('America/Chicago'); // Evansville
+    expect(await lookupTimezone(38.25, -85.76)).toBe('America/Kentucky/Louisville');
+  });
+
+  it('puts the Navajo Nation on daylight time inside Arizona', async () => {
+    expect(await lookupTimezone(33.45, -112.07)).toBe('America/Phoenix');
+    expect(await lookupTimezone(35.68, -109.05)).toBe('America/Denver'); // Window Rock
+    expect(await lookupTimezone(36.13, -111.24)).toBe('America/Denver'); // Tuba City
+  });
+
+  it('follows national borders between nearby cities', async () => {
+    expect(await lookupTimezone(48.58, 7.75)).toBe('Europe/Paris'); // Strasbourg
+    expect(await lookupTimezone(48.57, 7.82)).toBe('Europe/Berlin'); // Kehl, across the Rhine
+    expect(await lookupTimezone(32.52, -117.04)).toBe('America/Tijuana');
+    expect(await lookupTimezone(32.72, -117.16)).toBe('America/Los_Angeles'); // San Diego
+  });
+
+  it('uses the nautical zone in open sea', async () => {
+    expect(await lookupTimezone(0, -150)).toBe('Etc/GMT+10');
+    expect(await lookupTimezone(-40, 80)).toBe('Etc/GMT-5');
+    expect(await lookupTimezone(45, -30)).toBe('Etc/GMT+2');
+  });
+
+  it('handles the poles and the antimeridian', async () => {
+    expect(await lookupTimezone(90, 180)).toBe('Etc/GMT-12');
+    expect(await lookupTimezone(-90, -180)).toBe('Antarctica/McMurdo');
+  });
+});
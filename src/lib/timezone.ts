@@ -0,0 +1,106 @@
+// Cells are null (open sea), a zone index, a cell crossed by boundaries, or [ne, nw, sw, se] quarters
+type TimezoneCell = null | number | MixedCell | TimezoneCell[];
+
+// Another zone's shape in a cell: rings are flat [lon, lat, dLon, dLat, ...] in 1/scale degrees
+type ZoneShape = [zone: number, ...rings: number[][]];
+
+// Zone covering most of the cell, plus the shapes of the other zones crossing it
+interface MixedCell {
+  zone: number;
+  shapes: ZoneShape[];
+}
+
+interface TimezoneData {
+  zones: string[];
+  root: TimezoneCell;
+  scale: number;
+}
+
+let timezoneData: Promise<TimezoneData> | undefined;
+
+// The boundaries are over 1 MB; load them on the first lookup so they stay out of the main bundle
+const loadTimezoneData = (): Promise<TimezoneData> => {
+  timezoneData ??= import('./data/timezones.json').then(({ default: data }) => ({
+    zones: data.zones,
+    root: data.root as unknown as TimezoneCell,
+    scale: data.scale
+  }));
+  return timezoneData;
+};
+
+// The quadtree covers the world short of the poles and the antimeridian, like its source
+const MAX_LATITUDE = 89.9999;
+const MAX_LONGITUDE = 179.9999;
+
+// Nautical zone from longitude; Etc/GMT signs are inverted, so UTC+10 is 'Etc/GMT-10'
+const getNauticalTimezone = (longitude: number): string => {
+  const offset = Math.round(longitude / 15);
+  if (offset === 0) return 'Etc/GMT';
+  return `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`;
+};
+
+// Even-odd ray cast across every ring, so holes in a shape count as outside
+const isInsideShape = (rings: number[][], x: number, y: number): boolean => {
+  let inside = false;
+  for (const ring of rings) {
+    const firstX = ring[0];
+    const firstY = ring[1];
+    let previousX = firstX;
+    let previousY = firstY;
+    let currentX = firstX;
+    let currentY = firstY;
+    for (let i = 2; i <= ring.length; i += 2) {
+      if (i < ring.length) {
+        currentX += ring[i];
+        currentY += ring[i + 1];
+      } else {
+        currentX = firstX;
+        currentY = firstY;
+      }
+      if ((currentY > y) !== (previousY > y) &&
+        x < (previousX - currentX) * (y - currentY) / (previousY - currentY) + currentX) {
+        inside = !inside;
+      }
+      previousX = currentX;
+      previousY = currentY;
+    }
+  }
+  return inside;
+};
+
+const findInMixedCell = (cell: MixedCell, scale: number, latitude: number, longitude: number): number => {
+  const x = longitude * scale;
+  const y = latitude * scale;
+  const match = cell.shapes.find(([, ...rings]) => isInsideShape(rings, x, y));
+  return match ? match[0] : cell.zone;
+};
+
+// IANA zone for a coordinate from the bundled timezone-boundary-builder boundaries: walk the
+// quadtree to the cell holding the point, then test it against the boundaries crossing that cell.
+// Points just offshore take the zone of the nearby coast; open sea falls back to the nautical zone.
+export const lookupTimezone = async (latitude: number, longitude: number): Promise<string> => {
+  const { zones, root, scale } = await loadTimezoneData();
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude));
+  const lon = Math.max(-MAX_LONGITUDE, Math.min(MAX_LONGITUDE, longitude));
+
+  let cell = root;
+  let top = MAX_LATITUDE;
+  let bottom = -MAX_LATITUDE;
+  let left = -MAX_LONGITUDE;
+  let right = MAX_LONGITUDE;
+  let midLat = 0;
+  let midLon = 0;
+
+  while (Array.isArray(cell)) {
+    const north = lat >= midLat;
+    const east = lon >= midLon;
+    cell = cell[north ? (east ? 0 : 1) : (east ? 3 : 2)];
+    if (north) bottom = midLat; else top = midLat;
+    if (east) left = midLon; else right = midLon;
+    midLat = (top + bottom) / 2;
+    midLon = (left + right) / 2;
+  }
+
+  if (cell === null) return getNauticalTimezone(longitude);
+  return zones[typeof cell === 'number' ? cell : findInMixedCell(cell, scale, lat, lon)];
+};
@@ -0,0 +1,113 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { analyzeTimingRange, TimingAnalysis } from './optimal-timing';
+import { buildOptimalWindowsCalendar, buildTimingCsv } from './timing-export';
+
+// Separators, quotes, a line break and multi-byte characters, so escaping and folding both apply
+const LOCATION = {
+  latitude: 48.85,
+  longitude: 2.35,
+  city: 'Saint-Ouen; "Île-de-France"',
+  country: 'Fräñçé, Ëü\\Rëpüblïqüé'
+};
+const LABEL = 'Saint-Ouen; "Île-de-France", Fräñçé, Ëü\\Rëpüblïqüé';
+
+// Minimal RFC 4180 reader: quoted fields may hold commas, doubled quotes and line breaks
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' && text[i + 1] === '\n') {
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+      i++;
+    } else {
+      field += char;
+    }
+  }
+  return rows;
+};
+
+const unfold = (ics: string): string[] => ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+
+let analysis: TimingAnalysis;
+
+beforeAll(async () => {
+  analysis = await analyzeTimingRange(LOCATION, new Date(2026, 5, 15, 12), 6);
+});
+
+describe('buildTimingCsv', () => {
+  it('quotes fields with commas, quotes and line breaks so every row keeps its columns', () => {
+    const awkwardName = 'Smog, "haze"\nand dust';
+    const withAwkwardFactor: TimingAnalysis = {
+      ...analysis,
+      series: analysis.series.map((result, index) => index === 0
+        ? { ...result, riskFactors: [...result.riskFactors, { ...result.riskFactors[0], name: awkwardName, impact: -1.5, severity: 'HIGH' }] }
+        : result)
+    };
+
+    const csv = buildTimingCsv(withAwkwardFactor);
+    expect(csv.endsWith('\r\n')).toBe(true);
+    expect(csv).toContain('"Smog, ""haze""\nand dust Impact"');
+
+    const [header, ...rows] = parseCsv(csv);
+    expect(rows).toHaveLength(analysis.series.length);
+    expect(rows.every(row => row.length === header.length)).toBe(true);
+
+    const impactColumn = header.indexOf(`${awkwardName} Impact`);
+    expect(rows[0][impactColumn]).toBe('-1.5');
+    expect(rows[0][impactColumn + 1]).toBe('HIGH');
+    expect(rows[1][impactColumn]).toBe('');
+  });
+});
+
+describe('buildOptimalWindowsCalendar', () => {
+  it('folds content lines at 75 octets without splitting characters', () => {
+    const ics = buildOptimalWindowsCalendar(analysis, LOCATION);
+    const encoder = new TextEncoder();
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    for (const line of ics.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('\uFFFD');
+    }
+    expect(ics).toMatch(/\r\n [^\r]/);
+  });
+
+  it('escapes backslashes, semicolons, commas and line breaks in text values', () => {
+    const lines = unfold(buildOptimalWindowsCalendar(analysis, LOCATION));
+    const escapedLabel = LABEL.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,');
+
+    expect(lines).toContain(`LOCATION:${escapedLabel}`);
+    const description = lines.find(line => line.startsWith('DESCRIPTION:'));
+    expect(description).toContain('\\n\\nKey recommendations:\\n');
+    expect(description).not.toMatch(/[^\\][;,]/);
+  });
+
+  it('writes one all-day event per optimal window, in date order', () => {
+    const lines = unfold(buildOptimalWindowsCalendar(analysis, LOCATION));
+    const starts = lines.filter(line => line.startsWith('DTSTART;VALUE=DATE:')).map(line => line.slice(-8));
+
+    expect(analysis.optimalWindows.length).toBeGreaterThan(1);
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(analysis.optimalWindows.length);
+    expect(starts).toEqual([...starts].sort());
+  });
+});
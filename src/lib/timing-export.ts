@@ -0,0 +1,163 @@
+import { addDays, addMonths, addWeeks, format, startOfMonth } from 'date-fns';
+import { getLocationLabel, LocationData } from './geolocation';
+import { AnalysisResolution, OptimalTimingResult, TimingAnalysis } from './optimal-timing';
+import { formatCivilDate } from './civil-date';
+import { formatRecommendation } from './recommendations';
+import { SCORE_CATEGORIES, ScoreCategory } from './scoring-profiles';
+
+const CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  solar: 'Solar Score',
+  seasonal: 'Seasonal Score',
+  geographic: 'Geographic Score',
+  environmental: 'Environmental Score'
+};
+
+// Recommendations quoted in each calendar event; the rest are in the app
+const EVENT_RECOMMENDATIONS = 3;
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+const escapeCsv = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per evaluated date (per month at the default resolution). Risk factors only fire for some dates,
+// so each factor seen anywhere in the range gets impact and severity columns, left empty where it is absent.
+export const buildTimingCsv = (analysis: TimingAnalysis): string => {
+  const factorNames = [...new Set(analysis.series.flatMap(result => result.riskFactors.map(factor => factor.name)))];
+
+  const header = [
+    'Date',
+    'Overall Score',
+    'Confidence',
+    'Lifespan Impact (years)',
+    'Lifespan Impact Low',
+    'Lifespan Impact High',
+    'Baseline Life Expectancy',
+    ...SCORE_CATEGORIES.map(category => CATEGORY_LABELS[category]),
+    'Sunspot Number',
+    'Solar Risk',
+    'Vitamin D Score',
+    'Infectious Risk',
+    'Climate Region',
+    'Optimal Window',
+    ...factorNames.flatMap(name => [`${name} Impact`, `${name} Severity`])
+  ];
+
+  const windows = new Set(analysis.optimalWindows.map(result => result.birthDate.getTime()));
+  const rows = analysis.series.map(result => {
+    const factors = new Map(result.riskFactors.map(factor => [factor.name, factor]));
+    return [
+      formatCivilDate(result.birthDate),
+      result.overallScore,
+      result.confidenceLevel,
+      result.lifeExpectancyDelta,
+      result.lifeExpectancyRange.low,
+      result.lifeExpectancyRange.high,
+      result.baselineLifeExpectancy,
+      ...SCORE_CATEGORIES.map(category => result.categoryScores[category]),
+      result.solarData.sunspotNumber,
+      result.solarData.solarRisk,
+      result.seasonalData.vitaminDScore,
+      result.seasonalData.infectiousRisk,
+      result.environmentalData.regionName,
+      windows.has(result.birthDate.getTime()) ? 'yes' : 'no',
+      ...factorNames.flatMap(name => [factors.get(name)?.impact, factors.get(name)?.severity])
+    ];
+  });
+
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+};
+
+// RFC 5545 text: backslash-escape separators and encode line breaks as \n
+const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets, continuation lines starting with a space
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const formatIcsDate = (date: Date): string => format(date, 'yyyyMMdd');
+
+// A monthly result stands for its calendar month; finer resolutions cover the step to the next date
+const getWindowSpan = (date: Date, resolution: AnalysisResolution): { start: Date; end: Date } => {
+  switch (resolution) {
+    case 'monthly':
+      return { start: startOfMonth(date), end: addMonths(startOfMonth(date), 1) };
+    case 'weekly':
+      return { start: date, end: addWeeks(date, 1) };
+    case 'daily':
+      return { start: date, end: addDays(date, 1) };
+  }
+};
+
+const describeWindow = (result: OptimalTimingResult): string => {
+  const lines = [
+    `Optimality score: ${result.overallScore}/100 (${result.confidenceLevel} confidence)`,
+    `Estimated lifespan impact: ${result.lifeExpectancyDelta >= 0 ? '+' : ''}${result.lifeExpectancyDelta} years`,
+    `Scoring profile: ${result.scoringProfile.name}, model ${result.model.version}`
+  ];
+
+  const recommendations = result.recommendations.slice(0, EVENT_RECOMMENDATIONS);
+  if (recommendations.length > 0) {
+    lines.push('', 'Key recommendations:', ...recommendations.map(rec => `- ${formatRecommendation(rec)}`));
+  }
+
+  lines.push('', 'Population-level statistical associations only; not medical advice.');
+  return lines.join('\n');
+};
+
+// The optimal windows as all-day events, in chronological order
+export const buildOptimalWindowsCalendar = (analysis: TimingAnalysis, location: LocationData): string => {
+  const label = getLocationLabel(location);
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const windows = [...analysis.optimalWindows].sort((a, b) => a.birthDate.getTime() - b.birthDate.getTime());
+
+  const events = windows.flatMap(result => {
+    const { start, end } = getWindowSpan(result.birthDate, analysis.resolution);
+    const period = analysis.resolution === 'monthly' ? format(start, 'MMMM yyyy') : format(start, 'MMM d, yyyy');
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${formatCivilDate(result.birthDate)}-${location.latitude.toFixed(4)}_${location.longitude.toFixed(4)}-${analysis.resolution}@birth-timing`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatIcsDate(start)}`,
+      `DTEND;VALUE=DATE:${formatIcsDate(end)}`,
+      `SUMMARY:${escapeIcsText(`Optimal birth window: ${period} (score ${result.overallScore})`)}`,
+      `LOCATION:${escapeIcsText(label)}`,
+      `DESCRIPTION:${escapeIcsText(describeWindow(result))}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Optimal Birth Timing Calculator//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(`Optimal birth windows - ${label}`)}`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+export const getTimingExportFilename = (analysis: TimingAnalysis, location: LocationData, extension: 'csv' | 'ics'): string =>
+  `birth-timing-${formatCivilDate(analysis.currentTiming.birthDate)}-${getLocationLabel(location).replace(/[^\w]+/g, '-')}.${extension}`;
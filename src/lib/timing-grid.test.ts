@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { calculateOptimalTiming, getRangeDates } from './optimal-timing';
+import { evaluateTimingGrid, getGridScore } from './timing-grid';
+import { SCORING_PROFILES } from './scoring-profiles';
+
+const LOCATIONS = [
+  { latitude: 48.85, longitude: 2.35, city: 'Paris', country: 'France', countryCode: 'FR' },
+  { latitude: -33.87, longitude: 151.21, city: 'Sydney', country: 'Australia', countryCode: 'AU' },
+  { latitude: 13.75, longitude: 100.5, city: 'Bangkok', country: 'Thailand', countryCode: 'TH' }
+];
+
+describe('evaluateTimingGrid', () => {
+  // Two years of weekly dates, so the same time of year recurs and the shared intermediates are reused
+  const dates = getRangeDates(new Date(2026, 5, 15), 12, 'weekly');
+
+  it('matches the overall score of a full analysis at sampled cells', async () => {
+    const options = { seed: 7, profile: SCORING_PROFILES['evidence-weighted'] };
+    const grid = await evaluateTimingGrid(LOCATIONS, dates, options);
+
+    for (const [locationIndex, location] of LOCATIONS.entries()) {
+      for (const dateIndex of [0, 1, 26, 52, dates.length - 1]) {
+        const { overallScore } = await calculateOptimalTiming(location, dates[dateIndex], 24, options);
+        expect(getGridScore(grid, locationIndex, dateIndex)).toBe(overallScore);
+      }
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import { LocationData } from './geolocation';
+import { DEFAULT_SOLAR_SEED } from './solar-cycle';
+import { calculateSeasonalRisk, createSeasonalRiskContext } from './seasonal-risk';
+import { calculateEnvironmentalRisk, createEnvironmentalRiskContext } from './environmental-risk';
+import { DEFAULT_SCORING_PROFILE } from './scoring-profiles';
+import {
+  calculateCategoryScores,
+  combineCategoryScores,
+  getSolarActivity,
+  TimingOptions
+} from './optimal-timing';
+
+// Scores for every location x date pair, without the risk factors and recommendations of a full result
+export interface TimingGrid {
+  locations: LocationData[];
+  dates: Date[];
+  overallScores: Uint8Array;           // Row-major: locationIndex * dates.length + dateIndex, 0-100
+  lifeExpectancyDelta: Float32Array;   // Per date; solar impact does not depend on location
+}
+
+export const getGridIndex = (grid: TimingGrid, locationIndex: number, dateIndex: number): number =>
+  locationIndex * grid.dates.length + dateIndex;
+
+export const getGridScore = (grid: TimingGrid, locationIndex: number, dateIndex: number): number =>
+  grid.overallScores[getGridIndex(grid, locationIndex, dateIndex)];
+
+export const evaluateTimingGrid = async (
+  locations: LocationData[],
+  dates: Date[],
+  options: TimingOptions = {}
+): Promise<TimingGrid> => {
+  const seed = options.seed ?? DEFAULT_SOLAR_SEED;
+  const profile = options.profile ?? DEFAULT_SCORING_PROFILE;
+  const overallScores = new Uint8Array(locations.length * dates.length);
+  const lifeExpectancyDelta = new Float32Array(dates.length);
+
+  // Solar activity once per date, shared by every location
+  const solarImpacts = (await Promise.all(dates.map(date => getSolarActivity(date, seed)))).map(activity => activity.lifespanImpact);
+  solarImpacts.forEach((impact, i) => { lifeExpectancyDelta[i] = impact; });
+
+  locations.forEach((location, locationIndex) => {
+    const rowOffset = locationIndex * dates.length;
+    // Season tables, school cutoff and climate region once per location; results by time of year are memoized
+    const seasonalContext = createSeasonalRiskContext(location);
+    const environmentalContext = createEnvironmentalRiskContext(location);
+
+    dates.forEach((date, dateIndex) => {
+      const seasonalRisk = calculateSeasonalRisk(date, location, seasonalContext);
+      const environmentalRisk = calculateEnvironmentalRisk(date, location, environmentalContext);
+      const scores = calculateCategoryScores(
+        solarImpacts[dateIndex],
+        seasonalRisk.overallSeasonalScore,
+        location.latitude,
+        environmentalRisk.environmentalScore
+      );
+      overallScores[rowOffset + dateIndex] = Math.max(0, Math.min(100, combineCategoryScores(scores, profile)));
+    });
+  });
+
+  return { locations, dates, overallScores, lifeExpectancyDelta };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { runAnalyzeJob } from './timing-jobs';
+import { AnalyzeRequest, TimingWorkerResponse } from './timing-worker-protocol';
+
+const REQUEST: AnalyzeRequest = {
+  type: 'analyze',
+  requestId: 1,
+  location: { latitude: 48.85, longitude: 2.35, city: 'Paris', country: 'France', countryCode: 'FR' },
+  centerDate: new Date(2027, 5, 15),
+  rangeMonths: 12,
+  resolutions: ['monthly'],
+  options: {}
+};
+
+describe('runAnalyzeJob', () => {
+  it('streams the selected date, then the series in chunks, then completes', async () => {
+    const responses: TimingWorkerResponse[] = [];
+    await runAnalyzeJob(REQUEST, response => responses.push(response), () => false);
+
+    expect(responses[0].type).toBe('current');
+    expect(responses[responses.length - 1].type).toBe('complete');
+    const partials = responses.filter(response => response.type === 'partial');
+    expect(partials.flatMap(partial => partial.results)).toHaveLength(25);
+  });
+
+  it('stops emitting once cancelled', async () => {
+    const responses: TimingWorkerResponse[] = [];
+    let cancelled = false;
+    await runAnalyzeJob(REQUEST, response => {
+      responses.push(response);
+      if (response.type === 'partial') cancelled = true;
+    }, () => cancelled);
+
+    expect(responses.map(response => response.type)).toEqual(['current', 'partial']);
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  analyzeTimingRange,
+  calculateOptimalTiming,
+  generateOptimalityReport,
+  getRangeDates,
+  OptimalTimingResult
+} from './optimal-timing';
+import { evaluateTimingGrid } from './timing-grid';
+import { atCivilNoon } from './civil-date';
+import {
+  AnalyzeRequest,
+  GridRequest,
+  RangeRequest,
+  ReportRequest,
+  TimingWorkerResponse
+} from './timing-worker-protocol';
+
+// Results per chunk: small enough that cancellation lands quickly, large enough to keep message overhead low
+const CHUNK_SIZE = 6;
+
+// Let queued messages (such as a cancel) run between chunks
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Timing analysis failed');
+
+// Runs an analyze request, streaming the selected date first and then each series in chronological chunks.
+// Shared by the Web Worker and the main-thread fallback.
+// isCancelled is checked before every date, but a cancel message is only delivered while the job yields:
+// between chunks, or while a solar provider waits on the network. A cancelled job stops within one chunk.
+export const runAnalyzeJob = async (
+  request: AnalyzeRequest,
+  emit: (response: TimingWorkerResponse) => void,
+  isCancelled: () => boolean
+): Promise<void> => {
+  const { requestId, location, centerDate, rangeMonths, options } = request;
+
+  try {
+    // Dates shared between resolutions (the center, month starts) are only evaluated once
+    const cache = new Map<number, OptimalTimingResult>();
+    const evaluate = async (date: Date) => {
+      const key = atCivilNoon(date).getTime();
+      const cached = cache.get(key);
+      if (cached) return cached;
+      const result = await calculateOptimalTiming(location, date, rangeMonths, options);
+      cache.set(key, result);
+      return result;
+    };
+
+    emit({ type: 'current', requestId, result: await evaluate(centerDate) });
+
+    for (const resolution of request.resolutions) {
+      const dates = getRangeDates(centerDate, rangeMonths, resolution);
+
+      for (let start = 0; start < dates.length; start += CHUNK_SIZE) {
+        await yieldToEventLoop();
+        if (isCancelled()) return;
+
+        const results: OptimalTimingResult[] = [];
+        for (const date of dates.slice(start, start + CHUNK_SIZE)) {
+          if (isCancelled()) return;
+          results.push(await evaluate(date));
+        }
+
+        emit({
+          type: 'partial',
+          requestId,
+          resolution,
+          results,
+          completed: Math.min(dates.length, start + CHUNK_SIZE),
+          total: dates.length
+        });
+      }
+    }
+
+    emit({ type: 'complete', requestId });
+  } catch (error) {
+    emit({ type: 'error', requestId, message: getErrorMessage(error) });
+  }
+};
+
+export const runReportJob = async (
+  request: ReportRequest,
+  emit: (response: TimingWorkerResponse) => void
+): Promise<void> => {
+  try {
+    const report = await generateOptimalityReport(request.location, request.selectedDate, request.options);
+    emit({ type: 'report', requestId: request.requestId, report });
+  } catch (error) {
+    emit({ type: 'error', requestId: request.requestId, message: getErrorMessage(error) });
+  }
+};
+
+export const runRangeJob = async (
+  request: RangeRequest,
+  emit: (response: TimingWorkerResponse) => void
+): Promise<void> => {
+  try {
+    const analysis = await analyzeTimingRange(request.location, request.centerDate, request.rangeMonths, request.options);
+    emit({ type: 'range', requestId: request.requestId, analysis });
+  } catch (error) {
+    emit({ type: 'error', requestId: request.requestId, message: getErrorMessage(error) });
+  }
+};
+
+export const runGridJob = async (
+  request: GridRequest,
+  emit: (response: TimingWorkerResponse, transfer?: Transferable[]) => void
+): Promise<void> => {
+  try {
+    const grid = await evaluateTimingGrid(request.locations, request.dates, request.options);
+    emit({ type: 'grid', requestId: request.requestId, grid }, [grid.overallScores.buffer, grid.lifeExpectancyDelta.buffer]);
+  } catch (error) {
+    emit({ type: 'error', requestId: request.requestId, message: getErrorMessage(error) });
+  }
+};
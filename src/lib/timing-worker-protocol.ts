@@ -0,0 +1,71 @@
+import { LocationData } from './geolocation';
+import {
+  AnalysisResolution,
+  OptimalTimingResult,
+  OptimalityReport,
+  RangeAnalysisOptions,
+  TimingAnalysis,
+  TimingOptions
+} from './optimal-timing';
+import { TimingGrid } from './timing-grid';
+
+// Messages exchanged with the timing Web Worker. Dates and results survive structured cloning as-is.
+
+export interface AnalyzeRequest {
+  type: 'analyze';
+  requestId: number;
+  location: LocationData;
+  centerDate: Date;
+  rangeMonths: number;
+  resolutions: AnalysisResolution[]; // Series are streamed in this order
+  options: TimingOptions;
+}
+
+export interface ReportRequest {
+  type: 'report';
+  requestId: number;
+  location: LocationData;
+  selectedDate: Date;
+  options: TimingOptions;
+}
+
+// Whole range in one response, for exports that need every result at once
+export interface RangeRequest {
+  type: 'range';
+  requestId: number;
+  location: LocationData;
+  centerDate: Date;
+  rangeMonths: number;
+  options: RangeAnalysisOptions;
+}
+
+export interface GridRequest {
+  type: 'grid';
+  requestId: number;
+  locations: LocationData[];
+  dates: Date[];
+  options: TimingOptions;
+}
+
+export interface CancelRequest {
+  type: 'cancel';
+  requestId: number;
+}
+
+export type TimingWorkerRequest = AnalyzeRequest | ReportRequest | RangeRequest | GridRequest | CancelRequest;
+
+export type TimingWorkerResponse =
+  | { type: 'current'; requestId: number; result: OptimalTimingResult }
+  | {
+      type: 'partial';
+      requestId: number;
+      resolution: AnalysisResolution;
+      results: OptimalTimingResult[]; // Next chronological chunk of the series
+      completed: number;
+      total: number;
+    }
+  | { type: 'complete'; requestId: number }
+  | { type: 'report'; requestId: number; report: OptimalityReport }
+  | { type: 'range'; requestId: number; analysis: TimingAnalysis }
+  | { type: 'grid'; requestId: number; grid: TimingGrid } // Typed-array buffers are transferred, not copied
+  | { type: 'error'; requestId: number; message: string };
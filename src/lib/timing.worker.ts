@@ -0,0 +1,42 @@
+import { runAnalyzeJob, runGridJob, runRangeJob, runReportJob } from './timing-jobs';
+import { TimingWorkerRequest, TimingWorkerResponse } from './timing-worker-protocol';
+
+const activeRequests = new Set<number>();
+const cancelledRequests = new Set<number>();
+let latestAnalyzeId = 0;
+
+const emit = (response: TimingWorkerResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+self.addEventListener('message', (event: MessageEvent<TimingWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'cancel':
+      if (activeRequests.has(request.requestId)) cancelledRequests.add(request.requestId);
+      break;
+
+    case 'analyze': {
+      // A newer analysis makes any older one stale, even if its cancel has not arrived yet
+      latestAnalyzeId = Math.max(latestAnalyzeId, request.requestId);
+      const isCancelled = () => cancelledRequests.has(request.requestId) || request.requestId < latestAnalyzeId;
+      activeRequests.add(request.requestId);
+      runAnalyzeJob(request, emit, isCancelled).finally(() => {
+        activeRequests.delete(request.requestId);
+        cancelledRequests.delete(request.requestId);
+      });
+      break;
+    }
+
+    case 'report':
+      runReportJob(request, emit);
+      break;
+
+    case 'range':
+      runRangeJob(request, emit);
+      break;
+
+    case 'grid':
+      runGridJob(request, emit);
+      break;
+  }
+});
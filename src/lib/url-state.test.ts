@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { buildDashboardQuery, parseDashboardUrlState } from './url-state';
+import { createCustomProfile, getEffectiveWeights, SCORING_PROFILES } from './scoring-profiles';
+
+const roundTrip = (state: Parameters<typeof buildDashboardQuery>[0]) =>
+  parseDashboardUrlState(`?${buildDashboardQuery(state)}`);
+
+describe('dashboard URL state', () => {
+  it('restores location, date, mode and tab', async () => {
+    const state = await roundTrip({
+      location: { latitude: 48.8566, longitude: 2.3522, city: 'Paris', country: 'France', countryCode: 'FR' },
+      date: new Date(2026, 4, 17),
+      mode: 'report',
+      tab: 'nutrition'
+    });
+
+    expect(state.location).toMatchObject({ latitude: 48.8566, longitude: 2.3522, city: 'Paris', countryCode: 'FR' });
+    expect(state.date).toEqual(new Date(2026, 4, 17, 12));
+    expect(state.mode).toBe('report');
+    expect(state.tab).toBe('nutrition');
+  });
+
+  it('sends presets by id alone', async () => {
+    const query = buildDashboardQuery({ profile: { ...SCORING_PROFILES['evidence-weighted'], projectionSex: 'female' } });
+    expect(query).toBe('profile=evidence-weighted&sex=female');
+    expect((await parseDashboardUrlState(query)).profile).toEqual({ ...SCORING_PROFILES['evidence-weighted'], projectionSex: 'female' });
+  });
+
+  it('keeps custom weights that are not whole percentages', async () => {
+    const profile = createCustomProfile();
+    profile.weights = { solar: 1, seasonal: 1, geographic: 1, environmental: 0 };
+    profile.includedCategories = ['solar', 'seasonal', 'geographic'];
+
+    const weights = getEffectiveWeights((await roundTrip({ profile })).profile!);
+    expect(weights.solar).toBeCloseTo(1 / 3, 4);
+    expect(weights.environmental).toBe(0);
+  });
+
+  it('carries custom thresholds, and leaves them out when they are the defaults', async () => {
+    const profile = createCustomProfile();
+    expect(buildDashboardQuery({ profile })).not.toContain('thresholds');
+
+    profile.thresholds.infection = { medium: 6.5, high: 12 };
+    profile.thresholds.solarActivity.high = 2;
+    expect((await roundTrip({ profile })).profile?.thresholds).toEqual(profile.thresholds);
+  });
+
+  it('ignores a custom profile with malformed thresholds', async () => {
+    expect((await parseDashboardUrlState('?profile=custom&weights=40,35,15,10&thresholds=1,2,3')).profile).toBeUndefined();
+  });
+
+  it('ignores a custom profile that could not be scored', async () => {
+    expect((await parseDashboardUrlState('?profile=custom&weights=0,0,0,0')).profile).toBeUndefined();
+    const inverted = '3,1,8,15,8,15,10,18,15,100,15,100';
+    expect((await parseDashboardUrlState(`?profile=custom&weights=40,35,15,10&thresholds=${inverted}`)).profile).toBeUndefined();
+  });
+});
@@ -0,0 +1,169 @@
+import { LocationData } from './geolocation';
+import { formatCivilDate, parseCivilDate } from './civil-date';
+import { lookupTimezone } from './timezone';
+import { ProjectionSex } from './life-expectancy';
+import { RECOMMENDATION_CATEGORIES, RecommendationCategory } from './recommendations';
+import {
+  createCustomProfile,
+  DEFAULT_SCORING_PROFILE,
+  getEffectiveWeights,
+  getScoringProfileError,
+  ProfileThresholds,
+  SCORE_CATEGORIES,
+  SCORING_PROFILES,
+  ScoringProfile
+} from './scoring-profiles';
+
+export type DashboardMode = 'calculator' | 'report' | 'compare';
+
+export type RecommendationTab = RecommendationCategory | 'all';
+
+// Everything a shared link carries; fields missing from the URL are left to the recipient's defaults
+export interface DashboardUrlState {
+  location?: LocationData;
+  date?: Date;
+  mode?: DashboardMode;
+  tab?: RecommendationTab;
+  profile?: ScoringProfile;
+}
+
+const DASHBOARD_MODES: DashboardMode[] = ['calculator', 'report', 'compare'];
+
+const RECOMMENDATION_TABS: RecommendationTab[] = ['all', ...RECOMMENDATION_CATEGORIES];
+
+const PROJECTION_SEXES: ProjectionSex[] = ['female', 'male', 'unspecified'];
+
+// Order of the medium,high pairs in the thresholds parameter
+const THRESHOLD_KEYS: (keyof ProfileThresholds)[] = [
+  'solarActivity',
+  'uvExposure',
+  'vitaminD',
+  'infection',
+  'latitude',
+  'environmental'
+];
+
+// Drops float noise without the loss of rounding to whole numbers
+const formatParamNumber = (value: number): string => String(Math.round(value * 1000) / 1000);
+
+const parseNumber = (value: string | null, min: number, max: number): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : undefined;
+};
+
+const parseLocation = async (params: URLSearchParams): Promise<LocationData | undefined> => {
+  const latitude = parseNumber(params.get('lat'), -90, 90);
+  const longitude = parseNumber(params.get('lon'), -180, 180);
+  if (latitude === undefined || longitude === undefined) return undefined;
+
+  return {
+    latitude,
+    longitude,
+    city: params.get('city') || undefined,
+    region: params.get('region') || undefined,
+    country: params.get('country') || undefined,
+    countryCode: params.get('cc')?.toUpperCase() || undefined,
+    timezone: await lookupTimezone(latitude, longitude)
+  };
+};
+
+const parseThresholds = (value: string): ProfileThresholds | undefined => {
+  const numbers = value.split(',').map(item => parseNumber(item, 0, Number.MAX_VALUE));
+  if (numbers.length !== THRESHOLD_KEYS.length * 2 || numbers.some(item => item === undefined)) return undefined;
+
+  return THRESHOLD_KEYS.reduce((thresholds, key, index) => {
+    thresholds[key] = { medium: numbers[index * 2] ?? 0, high: numbers[index * 2 + 1] ?? 0 };
+    return thresholds;
+  }, {} as ProfileThresholds);
+};
+
+// Presets travel by id; a custom profile carries its effective weights as percentages in SCORE_CATEGORIES order,
+// and its thresholds as medium,high pairs in THRESHOLD_KEYS order when they differ from the defaults
+const parseProfile = (params: URLSearchParams): ScoringProfile | undefined => {
+  const id = params.get('profile');
+  const sex = params.get('sex') as ProjectionSex | null;
+  const projectionSex = sex && PROJECTION_SEXES.includes(sex) ? sex : undefined;
+
+  const preset = Object.values(SCORING_PROFILES).find(profile => profile.id === id);
+  if (preset) {
+    return { ...preset, projectionSex };
+  }
+
+  if (id === 'custom') {
+    const percentages = (params.get('weights') ?? '').split(',').map(value => parseNumber(value, 0, 100));
+    if (percentages.length !== SCORE_CATEGORIES.length || percentages.some(value => value === undefined)) {
+      return undefined;
+    }
+
+    const profile = createCustomProfile();
+    SCORE_CATEGORIES.forEach((category, index) => {
+      profile.weights[category] = (percentages[index] ?? 0) / 100;
+    });
+    profile.includedCategories = SCORE_CATEGORIES.filter(category => profile.weights[category] > 0);
+
+    const thresholds = params.get('thresholds');
+    if (thresholds !== null) {
+      const parsed = parseThresholds(thresholds);
+      if (!parsed) return undefined;
+      profile.thresholds = parsed;
+    }
+
+    return getScoringProfileError(profile) ? undefined : { ...profile, projectionSex };
+  }
+
+  return projectionSex ? { ...SCORING_PROFILES.default, projectionSex } : undefined;
+};
+
+export const parseDashboardUrlState = async (search: string): Promise<DashboardUrlState> => {
+  const params = new URLSearchParams(search);
+  const mode = params.get('mode') as DashboardMode | null;
+  const tab = params.get('tab') as RecommendationTab | null;
+  const date = params.get('date');
+
+  return {
+    location: await parseLocation(params),
+    date: date ? parseCivilDate(date) : undefined,
+    mode: mode && DASHBOARD_MODES.includes(mode) ? mode : undefined,
+    tab: tab && RECOMMENDATION_TABS.includes(tab) ? tab : undefined,
+    profile: parseProfile(params)
+  };
+};
+
+// Query string without the leading '?'; defaults are left out to keep links short
+export const buildDashboardQuery = (state: DashboardUrlState): string => {
+  const params = new URLSearchParams();
+  const { location, date, mode, tab, profile } = state;
+
+  if (location) {
+    params.set('lat', location.latitude.toFixed(4));
+    params.set('lon', location.longitude.toFixed(4));
+    if (location.city) params.set('city', location.city);
+    if (location.region) params.set('region', location.region);
+    if (location.country) params.set('country', location.country);
+    if (location.countryCode) params.set('cc', location.countryCode);
+  }
+  if (date) params.set('date', formatCivilDate(date));
+  if (mode && mode !== 'calculator') params.set('mode', mode);
+  if (tab && tab !== 'all') params.set('tab', tab);
+
+  if (profile) {
+    if (profile.id !== 'default') params.set('profile', profile.id);
+    if (profile.id === 'custom') {
+      const weights = getEffectiveWeights(profile);
+      params.set('weights', SCORE_CATEGORIES.map(category => formatParamNumber(weights[category] * 100)).join(','));
+
+      const thresholds = THRESHOLD_KEYS.flatMap(key => [profile.thresholds[key].medium, profile.thresholds[key].high]);
+      const defaults = THRESHOLD_KEYS.flatMap(key => [
+        DEFAULT_SCORING_PROFILE.thresholds[key].medium,
+        DEFAULT_SCORING_PROFILE.thresholds[key].high
+      ]);
+      if (thresholds.some((value, index) => value !== defaults[index])) {
+        params.set('thresholds', thresholds.map(formatParamNumber).join(','));
+      }
+    }
+    if (profile.projectionSex && profile.projectionSex !== 'unspecified') params.set('sex', profile.projectionSex);
+  }
+
+  return params.toString();
+};